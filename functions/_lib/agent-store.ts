@@ -0,0 +1,267 @@
+/**
+ * Agent Store — runtime agent registry for the Pages Functions
+ *
+ * Agents live in Workers KV as one JSON document (key "registry") so a page
+ * request costs a single edge-cached read. Photos live in R2 and are served
+ * by /api/agents/{slug}/photo. The built-in AGENTS_DATA list is the fallback:
+ * KV records override it by slug, and inactive records hide an agent.
+ *
+ * Local development: `npm run pages:dev` runs the Functions in Miniflare
+ * with local KV/R2 storage (see wrangler.toml).
+ */
+
+import {
+  AGENTS_DATA,
+  RESERVED_SLUGS,
+  getAgentBySlug,
+  normalizePhone,
+  type AgentData,
+  type AgentRecord,
+} from '../../src/data/agents';
+import { isShareFormat, type ShareFormat } from '../../src/utils/share-message';
+import { parseTemplate } from '../../src/utils/share-template';
+
+// ============================================
+// Bindings (minimal shapes of the Workers KV/R2 APIs used here)
+// ============================================
+
+interface KVStore {
+  get(key: string, options: { type: 'json'; cacheTtl?: number }): Promise<unknown>;
+  put(key: string, value: string): Promise<void>;
+}
+
+export interface StoredPhoto {
+  body: ReadableStream;
+  httpEtag: string;
+  httpMetadata?: { contentType?: string };
+}
+
+interface PhotoBucket {
+  get(key: string): Promise<StoredPhoto | null>;
+  put(key: string, value: ArrayBuffer, options?: { httpMetadata?: { contentType?: string } }): Promise<unknown>;
+}
+
+export interface AgentStoreEnv {
+  AGENTS_KV?: KVStore;
+  AGENT_PHOTOS?: PhotoBucket;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const REGISTRY_KEY = 'registry';
+
+/** Edge cache for KV reads; admin changes show up within this many seconds */
+const REGISTRY_CACHE_TTL = 60;
+
+export const AGENT_PHOTO_MAX_BYTES = 2 * 1024 * 1024;
+
+export const AGENT_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const SHARE_TEMPLATE_MAX_LENGTH = 4000;
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,31}$/;
+
+/** Names end up in page titles and meta tags: no control characters or markup */
+const NAME_FORBIDDEN_PATTERN = /[\u0000-\u001f\u007f<>]/;
+
+// ============================================
+// Registry
+// ============================================
+
+export interface ReadAgentsOptions {
+  /**
+   * Skip the edge cache and throw when KV can't be read (admin
+   * read-modify-write: writing back an empty fallback would wipe the registry)
+   */
+  fresh?: boolean;
+}
+
+/**
+ * Agent records saved through the admin API (empty without KV, and on
+ * a failed read unless `fresh`)
+ */
+export async function readStoredAgents(
+  env: AgentStoreEnv,
+  options: ReadAgentsOptions = {}
+): Promise<Record<string, AgentRecord>> {
+  if (!env.AGENTS_KV) return {};
+
+  try {
+    const stored = await env.AGENTS_KV.get(REGISTRY_KEY, options.fresh
+      ? { type: 'json' }
+      : { type: 'json', cacheTtl: REGISTRY_CACHE_TTL });
+    return stored && typeof stored === 'object' ? stored as Record<string, AgentRecord> : {};
+  } catch (error) {
+    if (options.fresh) throw error;
+    console.warn('[agent-store] KV read failed, using built-in agents:', error);
+    return {};
+  }
+}
+
+export async function writeStoredAgents(env: AgentStoreEnv, records: Record<string, AgentRecord>): Promise<void> {
+  if (!env.AGENTS_KV) throw new Error('AGENTS_KV binding missing');
+  await env.AGENTS_KV.put(REGISTRY_KEY, JSON.stringify(records));
+}
+
+/**
+ * Built-in agents as records, overlaid with stored records
+ */
+export function withBuiltInAgents(stored: Record<string, AgentRecord>): Record<string, AgentRecord> {
+  const records: Record<string, AgentRecord> = {};
+
+  for (const [slug, agent] of Object.entries(AGENTS_DATA)) {
+    records[slug] = { ...agent, slug, active: true, updatedAt: '' };
+  }
+
+  return { ...records, ...stored };
+}
+
+/**
+ * Built-in agents as records, overlaid with the KV records
+ */
+export async function loadAgentRecords(
+  env: AgentStoreEnv,
+  options: ReadAgentsOptions = {}
+): Promise<Record<string, AgentRecord>> {
+  return withBuiltInAgents(await readStoredAgents(env, options));
+}
+
+/**
+ * Active agents keyed by slug (what the SPA and the middleware see)
+ */
+export async function loadActiveAgents(env: AgentStoreEnv): Promise<Record<string, AgentData>> {
+  const records = await loadAgentRecords(env);
+  const agents: Record<string, AgentData> = {};
+
+  for (const record of Object.values(records)) {
+    if (!record.active) continue;
+    agents[record.slug] = {
+      name: record.name,
+      website: record.website,
+      phone: record.phone,
+      photo: record.photo,
+      ...(record.shareFormat ? { shareFormat: record.shareFormat } : {}),
+      ...(record.shareTemplate ? { shareTemplate: record.shareTemplate } : {}),
+    };
+  }
+
+  return agents;
+}
+
+export async function findActiveAgent(env: AgentStoreEnv, slug: string): Promise<AgentData | null> {
+  return getAgentBySlug(slug, await loadActiveAgents(env));
+}
+
+// ============================================
+// Photos
+// ============================================
+
+/** Public URL of an R2 photo (version busts browser and edge caches) */
+export function getAgentPhotoUrl(slug: string, version: string): string {
+  return `/api/agents/${slug}/photo?v=${encodeURIComponent(version)}`;
+}
+
+export function isStoredPhotoUrl(photo: string): boolean {
+  return photo.startsWith('/api/agents/');
+}
+
+export async function readAgentPhoto(env: AgentStoreEnv, slug: string): Promise<StoredPhoto | null> {
+  return env.AGENT_PHOTOS ? env.AGENT_PHOTOS.get(`${slug}/photo`) : null;
+}
+
+export async function writeAgentPhoto(
+  env: AgentStoreEnv,
+  slug: string,
+  data: ArrayBuffer,
+  contentType: string
+): Promise<void> {
+  if (!env.AGENT_PHOTOS) throw new Error('AGENT_PHOTOS binding missing');
+  await env.AGENT_PHOTOS.put(`${slug}/photo`, data, { httpMetadata: { contentType } });
+}
+
+// ============================================
+// Validation
+// ============================================
+
+export interface AgentInput {
+  slug?: string;
+  name?: string;
+  phone?: string;
+  website?: string;
+  shareFormat?: ShareFormat;
+  shareTemplate?: string;
+  active?: boolean;
+}
+
+export function isValidSlug(slug: string): boolean {
+  return SLUG_PATTERN.test(slug) && !RESERVED_SLUGS.includes(slug);
+}
+
+/**
+ * Check admin input; `partial` allows missing fields (updates)
+ * Returns cleaned fields plus one message per invalid field
+ */
+export function validateAgentInput(
+  input: unknown,
+  partial: boolean
+): { value: AgentInput; errors: string[] } {
+  const errors: string[] = [];
+  const value: AgentInput = {};
+
+  if (!input || typeof input !== 'object') {
+    return { value, errors: ['Body harus berupa objek JSON'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  if (!partial || raw.slug !== undefined) {
+    const slug = typeof raw.slug === 'string' ? raw.slug.trim().toLowerCase() : '';
+    if (isValidSlug(slug)) value.slug = slug;
+    else errors.push('slug: 2–32 huruf kecil, angka atau "-", dan bukan nama rute yang dipakai');
+  }
+
+  if (!partial || raw.name !== undefined) {
+    const rawName = typeof raw.name === 'string' ? raw.name : '';
+    const name = rawName.trim().replace(/ +/g, ' ');
+    if (name.length > 0 && name.length <= 80 && !NAME_FORBIDDEN_PATTERN.test(name)) value.name = name;
+    else errors.push('name: wajib diisi, maksimal 80 karakter, tanpa karakter kontrol atau < >');
+  }
+
+  if (!partial || raw.phone !== undefined) {
+    const phone = typeof raw.phone === 'string' ? normalizePhone(raw.phone) : '';
+    if (/^62\d{8,13}$/.test(phone)) value.phone = phone;
+    else errors.push('phone: nomor WhatsApp Indonesia (62…/08…)');
+  }
+
+  if (raw.website !== undefined || !partial) {
+    const website = typeof raw.website === 'string' ? raw.website.trim().replace(/^https?:\/\//, '').replace(/\/+$/, '') : '';
+    if (website === '' || /^[a-z0-9.-]+\.[a-z]{2,}(\/\S*)?$/i.test(website)) value.website = website;
+    else errors.push('website: domain tidak valid');
+  }
+
+  if (raw.shareFormat !== undefined) {
+    if (isShareFormat(raw.shareFormat)) value.shareFormat = raw.shareFormat;
+    else errors.push('shareFormat: "short" atau "long"');
+  }
+
+  if (raw.shareTemplate !== undefined) {
+    const template = typeof raw.shareTemplate === 'string' ? raw.shareTemplate : null;
+    const templateErrors = template !== null ? parseTemplate(template).errors : [];
+    if (template === null || template.length > SHARE_TEMPLATE_MAX_LENGTH) {
+      errors.push(`shareTemplate: teks maksimal ${SHARE_TEMPLATE_MAX_LENGTH} karakter ("" = template bawaan)`);
+    } else if (templateErrors.length > 0) {
+      errors.push(`shareTemplate: ${templateErrors.join(', ')}`);
+    } else {
+      value.shareTemplate = template;
+    }
+  }
+
+  if (raw.active !== undefined) {
+    if (typeof raw.active === 'boolean') value.active = raw.active;
+    else errors.push('active: harus true/false');
+  }
+
+  return { value, errors };
+}
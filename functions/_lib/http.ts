@@ -0,0 +1,35 @@
+/**
+ * Shared response helpers for the /api Functions
+ * (no onRequest export, so Pages doesn't route this file)
+ */
+
+import type { ApiErrorCode, ApiErrorEnvelope } from '../../src/types/umroh-package';
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+      ...headers,
+    },
+  });
+}
+
+/**
+ * JSON error envelope (never cached)
+ */
+export function errorResponse(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  options: { upstreamStatus?: number; headers?: Record<string, string> } = {}
+): Response {
+  const { upstreamStatus, headers = {} } = options;
+  const body: ApiErrorEnvelope = {
+    status: 'error',
+    error: { code, message, ...(upstreamStatus ? { upstreamStatus } : {}) },
+  };
+
+  return jsonResponse(body, status, headers);
+}
@@ -5,24 +5,86 @@
  * are invisible to them. This middleware intercepts HTML responses and
  * injects the correct <title>, <meta description>, and OG tags based
  * on the URL slug BEFORE the HTML is sent to the client/crawler.
+ *
+ * Every agent page gets an og:image card rendered by /og/{slug}; deep
+ * links to one package (/bagas?open=JBU1500) get package-specific tags
+ * and the package card from /og/{slug}/{jadwalId}.
+ *
+ * Paths that are neither the home page nor a known agent get the static
+ * 404 page instead of the SPA shell.
  */
 
-// Agent data (duplicated from src/data/agents.ts because CF Functions
-// run in a separate Workers runtime and can't import Vite source files)
-const AGENTS: Record<string, { name: string; website: string; phone: string }> = {
-  'bagas': {
-    name: 'Bagas Pramudita',
-    website: 'alhijazindonesia.com',
-    phone: '6287878573311',
-  },
-  'nila': {
-    name: 'Nila Novita Sari',
-    website: 'alhijaztourtravels.com',
-    phone: '6285211209049',
-  },
-};
+import { RESERVED_SLUGS, getSlugFromPath } from '../src/data/agents';
+import { findActiveAgent, type AgentStoreEnv } from './_lib/agent-store';
+import { getPackageById } from '../src/services/data-service';
+import { parseUrlState } from '../src/utils/url-state';
+import { buildPackagePreview, type PackagePreview } from '../src/utils/package-preview';
+
+interface MiddlewareContext {
+  request: Request;
+  env: AgentStoreEnv & {
+    /** Static assets binding provided by Pages */
+    ASSETS: { fetch: (request: Request) => Promise<Response> };
+  };
+  next: () => Promise<Response>;
+}
+
+/**
+ * First path segments passed through untouched: the home page, files and
+ * the proxy Functions (upstream brochure/itinerary pages can be HTML)
+ */
+const PASSTHROUGH_PATHS = new Set(['', ...RESERVED_SLUGS]);
+
+/** Pretty URL of public/404.html (the asset server redirects "/404.html" here) */
+const NOT_FOUND_PAGE = '/404';
 
-export const onRequest = async (context: { request: Request; next: () => Promise<Response> }) => {
+/** Crawlers give up quickly, so the package lookup must not stall the page */
+const PACKAGE_LOOKUP_TIMEOUT = 3000;
+
+/**
+ * Escape a value for use inside an HTML attribute or text node
+ */
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Look up the package named by ?open= (null when absent or not found)
+ */
+async function findPackagePreview(url: URL): Promise<{ preview: PackagePreview; jadwalId: string; year: string } | null> {
+  const { year, expandedCardId } = parseUrlState(url.search);
+  if (!expandedCardId) return null;
+
+  const pkg = await getPackageById(expandedCardId, {
+    yearCode: year,
+    useCache: false,
+    timeout: PACKAGE_LOOKUP_TIMEOUT,
+    baseUrl: url.origin,
+  });
+  if (!pkg) return null;
+
+  return { preview: buildPackagePreview(pkg), jadwalId: pkg.jadwalId, year };
+}
+
+/**
+ * Static 404 page with a real 404 status (plain text if the page is missing)
+ */
+async function notFoundResponse(context: MiddlewareContext, url: URL): Promise<Response> {
+  const page = await context.env.ASSETS.fetch(new Request(new URL(NOT_FOUND_PAGE, url.origin).toString()));
+  const body = page.ok ? page.body : 'Halaman tidak ditemukan';
+  return new Response(body, {
+    status: 404,
+    headers: {
+      'Content-Type': page.ok ? 'text/html; charset=utf-8' : 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+export const onRequest = async (context: MiddlewareContext) => {
   const response = await context.next();
   const url = new URL(context.request.url);
 
@@ -33,32 +95,41 @@ export const onRequest = async (context: { request: Request; next: () => Promise
   }
 
   // Extract slug from path (e.g., /bagas → bagas)
-  const slug = url.pathname.replace(/^\/+/, '').split('/')[0].toLowerCase();
-  const agent = AGENTS[slug];
+  const slug = getSlugFromPath(url.pathname);
+  const agent = PASSTHROUGH_PATHS.has(slug) ? null : await findActiveAgent(context.env, slug);
 
-  // No matching agent → return response as-is
+  // Home page / proxies → return response as-is; unknown slug → 404
   if (!agent) {
-    return response;
+    return PASSTHROUGH_PATHS.has(slug) ? response : notFoundResponse(context, url);
   }
 
-  // Build dynamic meta values
-  const newTitle = `Jadwal Umroh Alhijaz | ${agent.name}`;
-  const newDescription = `Dapatkan info lengkap paket umrah Alhijaz Indowisata bersama ${agent.name}. Klik untuk konsultasi via WhatsApp.`;
-  const pageUrl = url.href;
+  // Build dynamic meta values (package deep links describe the package)
+  const packageLink = await findPackagePreview(url);
+  const newTitle = packageLink
+    ? escapeHtml(`${packageLink.preview.name} | ${agent.name}`)
+    : escapeHtml(`Jadwal Umroh Alhijaz | ${agent.name}`);
+  const newDescription = packageLink
+    ? escapeHtml(packageLink.preview.description)
+    : escapeHtml(`Dapatkan info lengkap paket umrah Alhijaz Indowisata bersama ${agent.name}. Klik untuk konsultasi via WhatsApp.`);
+  const pageUrl = escapeHtml(url.href);
+  const imageUrl = packageLink
+    ? `${url.origin}/og/${slug}/${encodeURIComponent(packageLink.jadwalId)}?y=${packageLink.year}`
+    : `${url.origin}/og/${slug}`;
 
   // Read original HTML and inject dynamic meta tags
+  // (replacer functions, so "$&" in an agent name isn't expanded)
   let html = await response.text();
 
   // Replace <title>
   html = html.replace(
     /<title>[^<]*<\/title>/i,
-    `<title>${newTitle}</title>`
+    () => `<title>${newTitle}</title>`
   );
 
   // Replace <meta name="description">
   html = html.replace(
     /<meta\s+name="description"\s+content="[^"]*"\s*\/?>/i,
-    `<meta name="description" content="${newDescription}" />`
+    () => `<meta name="description" content="${newDescription}" />`
   );
 
   // Inject Open Graph tags (for richer link previews)
@@ -68,10 +139,15 @@ export const onRequest = async (context: { request: Request; next: () => Promise
     <meta property="og:url" content="${pageUrl}" />
     <meta property="og:type" content="website" />
     <meta property="og:site_name" content="Alhijaz Indowisata" />
+    <meta property="og:image" content="${escapeHtml(imageUrl)}" />
+    <meta property="og:image:type" content="image/png" />
+    <meta property="og:image:width" content="1200" />
+    <meta property="og:image:height" content="630" />
+    <meta name="twitter:card" content="summary_large_image" />
   `;
 
   // Insert OG tags before </head>
-  html = html.replace('</head>', `${ogTags}</head>`);
+  html = html.replace('</head>', () => `${ogTags}</head>`);
 
   // Return modified HTML
   return new Response(html, {
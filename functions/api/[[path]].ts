@@ -0,0 +1,214 @@
+/**
+ * Cloudflare Pages Function — Schedule API Proxy
+ * Proxies the schedule API to bypass CORS and caches it at the edge.
+ *
+ * Route: /api/api-get/{yearCode} → https://jadwal.miqot.com/jadwal/api-get/{yearCode}
+ *
+ * - Year code is validated before anything is sent upstream
+ * - Good responses are cached at the edge for API_CACHE_TTL seconds (default 60)
+ * - ETag / Last-Modified are sent so clients can revalidate with a 304
+ * - Failures return an ApiErrorEnvelope so the app can tell an upstream
+ *   outage apart from its own network failure
+ */
+
+import type { ApiErrorCode } from '../../src/types/umroh-package';
+import { errorResponse as baseErrorResponse } from '../_lib/http';
+
+interface Env {
+  /** Edge cache TTL in seconds (optional, default 60) */
+  API_CACHE_TTL?: string;
+}
+
+interface ProxyContext {
+  request: Request;
+  env: Env;
+  params: { path?: string | string[] };
+  waitUntil: (promise: Promise<unknown>) => void;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const UPSTREAM_BASE_URL = 'https://jadwal.miqot.com/jadwal';
+const DEFAULT_CACHE_TTL = 60;
+const MAX_CACHE_TTL = 3600;
+const UPSTREAM_TIMEOUT = 8000;
+
+/** Hijri year codes, e.g. "1448" */
+const YEAR_CODE_PATTERN = /^1[45]\d{2}$/;
+
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, If-None-Match, If-Modified-Since',
+  'Access-Control-Expose-Headers': 'ETag, Last-Modified, X-Cache',
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+function getCacheTtl(env: Env): number {
+  const ttl = parseInt(env.API_CACHE_TTL || '', 10);
+  if (Number.isNaN(ttl) || ttl < 0) return DEFAULT_CACHE_TTL;
+  return Math.min(ttl, MAX_CACHE_TTL);
+}
+
+function errorResponse(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  upstreamStatus?: number
+): Response {
+  return baseErrorResponse(status, code, message, { upstreamStatus, headers: CORS_HEADERS });
+}
+
+async function computeETag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `"${hex}"`;
+}
+
+/**
+ * Answer 304 when the client's copy still matches
+ */
+function isNotModified(request: Request, etag: string | null, lastModified: string | null): boolean {
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifNoneMatch && etag) {
+    return ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag);
+  }
+
+  const ifModifiedSince = request.headers.get('If-Modified-Since');
+  if (ifModifiedSince && lastModified) {
+    return Date.parse(lastModified) <= Date.parse(ifModifiedSince);
+  }
+
+  return false;
+}
+
+function withClientHeaders(request: Request, response: Response, cacheStatus: 'HIT' | 'MISS'): Response {
+  const headers = new Headers(response.headers);
+  for (const [key, value] of Object.entries(CORS_HEADERS)) {
+    headers.set(key, value);
+  }
+  headers.set('X-Cache', cacheStatus);
+
+  if (isNotModified(request, headers.get('ETag'), headers.get('Last-Modified'))) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(request.method === 'HEAD' ? null : response.body, {
+    status: response.status,
+    headers,
+  });
+}
+
+/**
+ * Fetch the schedule from jadwal.miqot.com and build a cacheable response
+ * Returns an error envelope response when the upstream misbehaves
+ */
+async function fetchUpstream(yearCode: string, ttl: number): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT);
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${UPSTREAM_BASE_URL}/api-get/${yearCode}`, {
+      headers: { 'Accept': 'application/json' },
+      signal: controller.signal,
+    });
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'AbortError';
+    return errorResponse(
+      timedOut ? 504 : 503,
+      'UPSTREAM_UNAVAILABLE',
+      timedOut ? 'Server jadwal tidak merespons' : 'Server jadwal tidak dapat dihubungi'
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (!upstream.ok) {
+    return errorResponse(502, 'UPSTREAM_ERROR', `Server jadwal error (${upstream.status})`, upstream.status);
+  }
+
+  const body = await upstream.text();
+
+  // Only cache data the app can actually use
+  try {
+    const data = JSON.parse(body) as { status?: string; aaData?: unknown };
+    if (data.status !== 'ok' || !Array.isArray(data.aaData)) {
+      throw new Error('Unexpected payload');
+    }
+  } catch {
+    return errorResponse(502, 'UPSTREAM_INVALID', 'Data jadwal dari server tidak valid', upstream.status);
+  }
+
+  const lastModified = upstream.headers.get('Last-Modified') || new Date().toUTCString();
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': ttl > 0 ? `public, max-age=${ttl}` : 'no-cache',
+      'ETag': await computeETag(body),
+      'Last-Modified': lastModified,
+    },
+  });
+}
+
+// ============================================
+// Handlers
+// ============================================
+
+export const onRequest = async (context: ProxyContext) => {
+  const { request, env, params } = context;
+
+  if (request.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 204,
+      headers: { ...CORS_HEADERS, 'Access-Control-Max-Age': '86400' },
+    });
+  }
+
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return errorResponse(405, 'METHOD_NOT_ALLOWED', `Method ${request.method} tidak didukung`);
+  }
+
+  // Path segments after /api/ (e.g. ["api-get", "1448"])
+  const segments = Array.isArray(params.path) ? params.path : [params.path || ''];
+  const [endpoint, yearCode, ...rest] = segments;
+
+  if (endpoint !== 'api-get' || rest.length > 0) {
+    return errorResponse(404, 'NOT_FOUND', 'Endpoint tidak ditemukan');
+  }
+
+  if (!yearCode || !YEAR_CODE_PATTERN.test(yearCode)) {
+    return errorResponse(400, 'INVALID_YEAR', `Kode tahun "${yearCode || ''}" tidak valid`);
+  }
+
+  // Edge cache keyed on the canonical upstream path (ignores query strings)
+  const cache = (caches as unknown as { default: Cache }).default;
+  const cacheKey = new Request(new URL(`/api/api-get/${yearCode}`, request.url).toString(), { method: 'GET' });
+
+  const cached = await cache.match(cacheKey);
+  if (cached) {
+    return withClientHeaders(request, cached, 'HIT');
+  }
+
+  const ttl = getCacheTtl(env);
+  const response = await fetchUpstream(yearCode, ttl);
+
+  // Error envelopes are returned as-is and never cached
+  if (!response.ok) {
+    return response;
+  }
+
+  if (ttl > 0) {
+    context.waitUntil(cache.put(cacheKey, response.clone()));
+  }
+  return withClientHeaders(request, response, 'MISS');
+};
@@ -0,0 +1,218 @@
+/**
+ * Cloudflare Pages Function — Agent Admin API
+ * Self-service onboarding of resellers without a redeploy.
+ *
+ * All requests need `Authorization: Bearer <ADMIN_TOKEN>`.
+ *
+ * Routes:
+ *   GET    /api/admin/agents               → all agents, inactive included
+ *   POST   /api/admin/agents               → create { slug, name, phone, website?, shareFormat?, shareTemplate? }
+ *   PATCH  /api/admin/agents/{slug}        → update { name?, phone?, website?, shareFormat?, shareTemplate?, active? }
+ *   DELETE /api/admin/agents/{slug}        → deactivate (record is kept)
+ *   PUT    /api/admin/agents/{slug}/photo  → upload photo (raw JPEG/PNG/WebP body, max 2 MB)
+ *
+ * Example:
+ *   curl -X PUT -H "Authorization: Bearer $ADMIN_TOKEN" -H "Content-Type: image/jpeg" \
+ *     --data-binary @foto.jpg https://<host>/api/admin/agents/bagas/photo
+ */
+
+import type { AgentRecord } from '../../../../src/data/agents';
+import { errorResponse, jsonResponse } from '../../../_lib/http';
+import {
+  AGENT_PHOTO_MAX_BYTES,
+  AGENT_PHOTO_TYPES,
+  getAgentPhotoUrl,
+  readStoredAgents,
+  validateAgentInput,
+  withBuiltInAgents,
+  writeAgentPhoto,
+  writeStoredAgents,
+  type AgentStoreEnv,
+} from '../../../_lib/agent-store';
+
+interface Env extends AgentStoreEnv {
+  /** Shared secret for the admin API (wrangler secret / .dev.vars) */
+  ADMIN_TOKEN?: string;
+}
+
+interface AdminContext {
+  request: Request;
+  env: Env;
+  params: { path?: string | string[] };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Admin reads bypass the KV edge cache so quick edits don't overwrite each
+ * other, and fail instead of falling back to the built-in agents
+ */
+const FRESH = { fresh: true };
+
+/** Stored (KV) agent records, read once per request */
+type StoredAgents = Record<string, AgentRecord>;
+
+/**
+ * Compare tokens without leaking the match length through timing
+ */
+function tokensMatch(given: string, expected: string): boolean {
+  const a = new TextEncoder().encode(given);
+  const b = new TextEncoder().encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < b.length; i++) {
+    diff |= (a[i] ?? 0) ^ b[i];
+  }
+  return diff === 0;
+}
+
+function isAuthorized(request: Request, env: Env): boolean {
+  const header = request.headers.get('Authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  return !!env.ADMIN_TOKEN && tokensMatch(token, env.ADMIN_TOKEN);
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+const invalidInput = (errors: string[]) =>
+  errorResponse(400, 'INVALID_INPUT', errors.join('; '));
+
+// ============================================
+// Handlers
+// ============================================
+
+async function createAgent(request: Request, env: Env, stored: StoredAgents): Promise<Response> {
+  const { value, errors } = validateAgentInput(await readJson(request), false);
+  if (errors.length > 0) return invalidInput(errors);
+
+  const slug = value.slug!;
+  if (withBuiltInAgents(stored)[slug]) {
+    return errorResponse(409, 'CONFLICT', `Slug "${slug}" sudah dipakai`);
+  }
+
+  const record: AgentRecord = {
+    slug,
+    name: value.name!,
+    phone: value.phone!,
+    website: value.website ?? '',
+    photo: '',
+    ...(value.shareFormat ? { shareFormat: value.shareFormat } : {}),
+    ...(value.shareTemplate ? { shareTemplate: value.shareTemplate } : {}),
+    active: value.active ?? true,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await writeStoredAgents(env, { ...stored, [slug]: record });
+  return jsonResponse({ status: 'ok', agent: record }, 201);
+}
+
+async function updateAgent(
+  request: Request,
+  env: Env,
+  stored: StoredAgents,
+  slug: string,
+  changes: Partial<AgentRecord> | null
+): Promise<Response> {
+  let fields = changes;
+
+  if (!fields) {
+    const { value, errors } = validateAgentInput(await readJson(request), true);
+    if (errors.length > 0) return invalidInput(errors);
+    if (value.slug && value.slug !== slug) {
+      return invalidInput(['slug: tidak bisa diubah, buat agen baru']);
+    }
+    fields = value;
+  }
+
+  // Built-in agents are copied into KV on their first change
+  const current = withBuiltInAgents(stored)[slug];
+  if (!current) {
+    return errorResponse(404, 'NOT_FOUND', `Agen "${slug}" tidak ditemukan`);
+  }
+
+  const record: AgentRecord = {
+    ...current,
+    ...fields,
+    slug,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await writeStoredAgents(env, { ...stored, [slug]: record });
+  return jsonResponse({ status: 'ok', agent: record });
+}
+
+async function uploadPhoto(request: Request, env: Env, stored: StoredAgents, slug: string): Promise<Response> {
+  const contentType = (request.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+  if (!AGENT_PHOTO_TYPES.includes(contentType)) {
+    return invalidInput([`photo: tipe ${contentType || '(kosong)'} tidak didukung, gunakan JPEG/PNG/WebP`]);
+  }
+
+  if (!withBuiltInAgents(stored)[slug]) {
+    return errorResponse(404, 'NOT_FOUND', `Agen "${slug}" tidak ditemukan`);
+  }
+
+  const data = await request.arrayBuffer();
+  if (data.byteLength === 0 || data.byteLength > AGENT_PHOTO_MAX_BYTES) {
+    return invalidInput(['photo: ukuran harus 1 byte – 2 MB']);
+  }
+
+  await writeAgentPhoto(env, slug, data, contentType);
+  return updateAgent(request, env, stored, slug, { photo: getAgentPhotoUrl(slug, Date.now().toString(36)) });
+}
+
+export const onRequest = async (context: AdminContext) => {
+  const { request, env, params } = context;
+
+  if (!env.ADMIN_TOKEN || !env.AGENTS_KV) {
+    return errorResponse(503, 'STORAGE_UNAVAILABLE', 'Admin API belum dikonfigurasi (ADMIN_TOKEN / AGENTS_KV)');
+  }
+
+  if (!isAuthorized(request, env)) {
+    return errorResponse(401, 'UNAUTHORIZED', 'Token admin tidak valid', {
+      headers: { 'WWW-Authenticate': 'Bearer' },
+    });
+  }
+
+  // Path segments after /api/admin/agents/
+  const segments = (Array.isArray(params.path) ? params.path : [params.path || '']).filter(Boolean);
+  const [rawSlug, resource, ...rest] = segments;
+  const slug = (rawSlug || '').toLowerCase();
+  const method = request.method;
+
+  if (rest.length > 0 || (resource && resource !== 'photo')) {
+    return errorResponse(404, 'NOT_FOUND', 'Endpoint tidak ditemukan');
+  }
+
+  try {
+    const stored = await readStoredAgents(env, FRESH);
+
+    if (!slug) {
+      if (method === 'GET') {
+        return jsonResponse({ status: 'ok', agents: Object.values(withBuiltInAgents(stored)) });
+      }
+      if (method === 'POST') return await createAgent(request, env, stored);
+    } else if (resource === 'photo') {
+      if (method === 'PUT') {
+        if (!env.AGENT_PHOTOS) {
+          return errorResponse(503, 'STORAGE_UNAVAILABLE', 'Penyimpanan foto (AGENT_PHOTOS) belum dikonfigurasi');
+        }
+        return await uploadPhoto(request, env, stored, slug);
+      }
+    } else {
+      if (method === 'PATCH') return await updateAgent(request, env, stored, slug, null);
+      if (method === 'DELETE') return await updateAgent(request, env, stored, slug, { active: false });
+    }
+  } catch (error) {
+    console.error('[admin/agents] Storage error:', error);
+    return errorResponse(503, 'STORAGE_UNAVAILABLE', 'Gagal membaca atau menyimpan data agen');
+  }
+
+  return errorResponse(405, 'METHOD_NOT_ALLOWED', `Method ${method} tidak didukung di endpoint ini`);
+};
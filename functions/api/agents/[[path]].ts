@@ -0,0 +1,58 @@
+/**
+ * Cloudflare Pages Function — Public Agent Registry
+ *
+ * Routes:
+ *   GET /api/agents              → { status: 'ok', agents: Record<slug, AgentData> }
+ *   GET /api/agents/{slug}/photo → agent photo uploaded through the admin API
+ *
+ * Only active agents are listed. Changes are managed by /api/admin/agents.
+ */
+
+import { errorResponse, jsonResponse } from '../../_lib/http';
+import { loadActiveAgents, readAgentPhoto, type AgentStoreEnv } from '../../_lib/agent-store';
+
+interface AgentsContext {
+  request: Request;
+  env: AgentStoreEnv;
+  params: { path?: string | string[] };
+}
+
+/** Short edge/browser cache: new agents appear within a minute */
+const LIST_CACHE_TTL = 60;
+
+export const onRequest = async (context: AgentsContext) => {
+  const { request, env, params } = context;
+
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return errorResponse(405, 'METHOD_NOT_ALLOWED', `Method ${request.method} tidak didukung`);
+  }
+
+  // Path segments after /api/agents/ ([] for the list)
+  const segments = (Array.isArray(params.path) ? params.path : [params.path || '']).filter(Boolean);
+
+  if (segments.length === 0) {
+    const agents = await loadActiveAgents(env);
+    return jsonResponse({ status: 'ok', agents }, 200, {
+      'Cache-Control': `public, max-age=${LIST_CACHE_TTL}`,
+    });
+  }
+
+  const [slug, resource, ...rest] = segments;
+  if (resource !== 'photo' || rest.length > 0) {
+    return errorResponse(404, 'NOT_FOUND', 'Endpoint tidak ditemukan');
+  }
+
+  const photo = await readAgentPhoto(env, slug.toLowerCase());
+  if (!photo) {
+    return errorResponse(404, 'NOT_FOUND', `Foto agen "${slug}" tidak ditemukan`);
+  }
+
+  // Photo URLs carry ?v=<upload time>, so a new upload gets a new URL
+  return new Response(request.method === 'HEAD' ? null : photo.body, {
+    headers: {
+      'Content-Type': photo.httpMetadata?.contentType || 'image/jpeg',
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'ETag': photo.httpEtag,
+    },
+  });
+};
@@ -0,0 +1,125 @@
+/**
+ * Cloudflare Pages Function — Subscribable iCal Feed
+ * Live calendar of upcoming departures, built from the schedule API.
+ *
+ * Routes (subscribe with webcal://, ".ics" suffix optional):
+ *   /ical                → all departures, linking to the main page
+ *   /ical/{agentSlug}    → same, each event linking to the agent's deep link
+ *
+ * Query: the list view's filter params (y, city, airline, promo=1, … — see
+ * src/utils/url-state.ts). Feeds are cached at the edge for
+ * FEED_CACHE_TTL; calendar apps poll far less often than that anyway.
+ */
+
+import { getPackages } from '../../src/services/data-service';
+import { buildCalendar, buildPackageEvents } from '../../src/utils/calendar';
+import {
+  CALENDAR_FEED_PATH,
+  filterCalendarFeedPackages,
+  getCalendarFeedState,
+} from '../../src/utils/calendar-feed';
+import { buildPackageLink, parseUrlState, serializeUrlState } from '../../src/utils/url-state';
+import { errorResponse } from '../_lib/http';
+import { findActiveAgent, type AgentStoreEnv } from '../_lib/agent-store';
+
+interface FeedContext {
+  request: Request;
+  env: AgentStoreEnv;
+  params: { path?: string | string[] };
+  waitUntil: (promise: Promise<unknown>) => void;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Seats and schedules change, but a feed doesn't need to be fresher */
+const FEED_CACHE_TTL = 900;
+const FEED_REFRESH_MINUTES = 60;
+const SCHEDULE_LOOKUP_TIMEOUT = 8000;
+
+/** Departure dates in the schedule are Jakarta dates */
+const FEED_TIME_ZONE = 'Asia/Jakarta';
+
+// ============================================
+// Helpers
+// ============================================
+
+/** Today's date in Jakarta as "YYYY-MM-DD" */
+function getToday(): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: FEED_TIME_ZONE }).format(new Date());
+}
+
+// ============================================
+// Handlers
+// ============================================
+
+export const onRequest = async (context: FeedContext) => {
+  const { request, env, params } = context;
+
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return errorResponse(405, 'METHOD_NOT_ALLOWED', `Method ${request.method} tidak didukung`);
+  }
+
+  // Path segments after /ical/ ([] for the main feed)
+  const segments = (Array.isArray(params.path) ? params.path : [params.path || '']).filter(Boolean);
+  if (segments.length > 1) {
+    return errorResponse(404, 'NOT_FOUND', 'Feed tidak ditemukan');
+  }
+
+  const slug = (segments[0] || '').replace(/\.ics$/i, '').toLowerCase();
+  const agent = slug ? await findActiveAgent(env, slug) : null;
+  if (slug && !agent) {
+    return errorResponse(404, 'NOT_FOUND', `Agen "${slug}" tidak ditemukan`);
+  }
+
+  const url = new URL(request.url);
+  const feed = getCalendarFeedState(parseUrlState(url.search));
+
+  // Edge cache keyed on the canonical feed URL (param order/aliases don't matter)
+  const cache = (caches as unknown as { default: Cache }).default;
+  const feedPath = slug ? `${CALENDAR_FEED_PATH}/${slug}` : CALENDAR_FEED_PATH;
+  const cacheKey = new Request(`${url.origin}${feedPath}${serializeUrlState(feed)}`, { method: 'GET' });
+
+  const cached = await cache.match(cacheKey);
+  if (cached) {
+    return request.method === 'HEAD' ? new Response(null, { headers: cached.headers }) : cached;
+  }
+
+  const result = await getPackages({
+    yearCode: feed.year,
+    useCache: false,
+    timeout: SCHEDULE_LOOKUP_TIMEOUT,
+    baseUrl: url.origin,
+  });
+  if (!result.success) {
+    return errorResponse(502, 'UPSTREAM_ERROR', result.error || 'Data jadwal tidak dapat dimuat');
+  }
+
+  const packages = filterCalendarFeedPackages(result.packages, feed.filter, getToday());
+  const events = packages.flatMap(pkg =>
+    buildPackageEvents(pkg, {
+      agent,
+      packageLink: buildPackageLink(url.origin, slug, feed.year, pkg.jadwalId),
+      kinds: ['berangkat'],
+      // Alarms for every departure would flood a subscriber's phone
+      reminders: false,
+    })
+  );
+
+  const body = buildCalendar(events, {
+    name: `Jadwal Umroh ${agent ? agent.name : 'Alhijaz Indowisata'} · ${feed.year} H`,
+    refreshMinutes: FEED_REFRESH_MINUTES,
+  });
+
+  const response = new Response(body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="jadwal-umroh-${slug || 'alhijaz'}.ics"`,
+      'Cache-Control': `public, max-age=${FEED_CACHE_TTL}`,
+    },
+  });
+
+  context.waitUntil(cache.put(cacheKey, response.clone()));
+  return request.method === 'HEAD' ? new Response(null, { headers: response.headers }) : response;
+};
@@ -0,0 +1,330 @@
+/**
+ * Cloudflare Pages Function — Open Graph Preview Images
+ * Renders the PNG shown in WhatsApp/Facebook link previews.
+ *
+ * Routes:
+ *   /og/{agentSlug}                     → agent card (photo, name, contact)
+ *   /og/{agentSlug}/{jadwalId}?y={year} → package card branded with the agent
+ *
+ * Images are cached at the edge for IMAGE_CACHE_TTL so a link shared in a
+ * busy group doesn't re-render (and re-fetch the schedule) per crawler hit.
+ */
+
+import { ImageResponse, loadGoogleFont } from 'workers-og';
+import type { AgentData } from '../../src/data/agents';
+import { getPackageById } from '../../src/services/data-service';
+import { parseUrlState } from '../../src/utils/url-state';
+import { buildPackagePreview, type PackagePreview } from '../../src/utils/package-preview';
+import {
+  findActiveAgent,
+  isStoredPhotoUrl,
+  readAgentPhoto,
+  type AgentStoreEnv,
+} from '../_lib/agent-store';
+
+interface Env extends AgentStoreEnv {
+  /** Static assets binding provided by Pages */
+  ASSETS: { fetch: (request: Request) => Promise<Response> };
+}
+
+interface OgContext {
+  request: Request;
+  env: Env;
+  params: { path?: string | string[] };
+  waitUntil: (promise: Promise<unknown>) => void;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const IMAGE_WIDTH = 1200;
+const IMAGE_HEIGHT = 630;
+
+/** Seats and prices change, so previews are refreshed hourly */
+const IMAGE_CACHE_TTL = 3600;
+/** The logo stand-in (fonts unavailable) is only cached briefly so a retry renders the card */
+const FALLBACK_CACHE_TTL = 300;
+const PACKAGE_LOOKUP_TIMEOUT = 5000;
+
+const FONT_FAMILY = 'Inter';
+const BRAND_NAME = 'ALHIJAZ INDOWISATA';
+const BRAND_LOGO_PATH = '/icon-192x192.png';
+
+// ============================================
+// Helpers
+// ============================================
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+function notFound(message: string): Response {
+  return new Response(message, {
+    status: 404,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+}
+
+/**
+ * Format "628123456789" as "+62 812-3456-789"
+ */
+const formatPhone = (phone: string): string => {
+  const local = phone.replace(/^62/, '');
+  const groups = local.match(/^(\d{3})(\d{4})(\d+)$/);
+  return groups ? `+62 ${groups[1]}-${groups[2]}-${groups[3]}` : `+${phone}`;
+};
+
+function toDataUri(data: ArrayBuffer, contentType: string): string {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${contentType};base64,${btoa(binary)}`;
+}
+
+/**
+ * Load a file from the Pages static assets as a data: URI
+ * (satori can't fetch relative URLs; null when missing)
+ */
+async function loadAssetDataUri(env: Env, origin: string, path: string): Promise<string | null> {
+  try {
+    const response = await env.ASSETS.fetch(new Request(new URL(path, origin).toString()));
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!response.ok || !contentType.startsWith('image/')) return null;
+    return toDataUri(await response.arrayBuffer(), contentType);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Regular and bold Inter from Google Fonts (null when the fetch fails)
+ */
+async function loadFonts(): Promise<{ regular: ArrayBuffer; bold: ArrayBuffer } | null> {
+  try {
+    const [regular, bold] = await Promise.all([
+      loadGoogleFont({ family: FONT_FAMILY, weight: 400 }),
+      loadGoogleFont({ family: FONT_FAMILY, weight: 700 }),
+    ]);
+    return { regular, bold };
+  } catch (error) {
+    console.warn('[og] Font load failed:', error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+/**
+ * Brand logo served in place of the card when it can't be rendered
+ * (503 when the logo is missing too)
+ */
+async function fallbackImage(env: Env, origin: string): Promise<Response> {
+  const logo = await env.ASSETS.fetch(new Request(new URL(BRAND_LOGO_PATH, origin).toString())).catch(() => null);
+  if (!logo?.ok) {
+    return new Response('Preview sementara tidak tersedia', {
+      status: 503,
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'Retry-After': String(FALLBACK_CACHE_TTL),
+      },
+    });
+  }
+  return new Response(logo.body, {
+    status: 200,
+    headers: {
+      'Content-Type': logo.headers.get('Content-Type') || 'image/png',
+      'Cache-Control': `public, max-age=${FALLBACK_CACHE_TTL}`,
+    },
+  });
+}
+
+/**
+ * Agent photo as a data: URI, from R2 (admin uploads) or static assets
+ */
+async function loadAgentPhoto(env: Env, origin: string, slug: string, agent: AgentData): Promise<string | null> {
+  if (!agent.photo) return null;
+  if (!isStoredPhotoUrl(agent.photo)) return loadAssetDataUri(env, origin, agent.photo);
+
+  try {
+    const photo = await readAgentPhoto(env, slug);
+    if (!photo) return null;
+    const data = await new Response(photo.body).arrayBuffer();
+    return toDataUri(data, photo.httpMetadata?.contentType || 'image/jpeg');
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// Card Markup (satori supports a flexbox subset of CSS only)
+// ============================================
+
+function renderBrand(logo: string | null): string {
+  return `
+    <div style="display: flex; align-items: center;">
+      ${logo ? `<img src="${logo}" width="56" height="56" style="border-radius: 14px; margin-right: 18px;" />` : ''}
+      <div style="display: flex; font-size: 26px; font-weight: 700; letter-spacing: 4px; color: #a7f3d0;">${BRAND_NAME}</div>
+    </div>
+  `;
+}
+
+/**
+ * Round agent photo, initials when the photo is missing
+ */
+function renderAvatar(agent: AgentData, photo: string | null, size: number): string {
+  if (photo) {
+    return `<img src="${photo}" width="${size}" height="${size}" style="border-radius: ${size / 2}px; border: 4px solid #ffffff; object-fit: cover;" />`;
+  }
+
+  const initials = agent.name
+    .split(/\s+/)
+    .slice(0, 2)
+    .map(word => word[0]?.toUpperCase() ?? '')
+    .join('');
+
+  return `
+    <div style="display: flex; align-items: center; justify-content: center; width: ${size}px; height: ${size}px; border-radius: ${size / 2}px; border: 4px solid #ffffff; background: #10b981; font-size: ${Math.round(size / 2.6)}px; font-weight: 700;">${escapeHtml(initials)}</div>
+  `;
+}
+
+function renderAgentCard(agent: AgentData, photo: string | null, logo: string | null): string {
+  return `
+    <div style="display: flex; flex-direction: column; width: ${IMAGE_WIDTH}px; height: ${IMAGE_HEIGHT}px; padding: 56px 64px; background: linear-gradient(135deg, #064e3b 0%, #047857 100%); color: #ffffff; font-family: '${FONT_FAMILY}';">
+      ${renderBrand(logo)}
+      <div style="display: flex; flex: 1; align-items: center;">
+        ${renderAvatar(agent, photo, 240)}
+        <div style="display: flex; flex-direction: column; margin-left: 56px;">
+          <div style="display: flex; font-size: 28px; color: #a7f3d0;">Jadwal & Harga Paket Umroh bersama</div>
+          <div style="display: flex; margin-top: 12px; font-size: 64px; font-weight: 700; line-height: 1.1;">${escapeHtml(agent.name)}</div>
+          <div style="display: flex; margin-top: 28px; font-size: 30px; font-weight: 700; color: #fcd34d;">WA ${escapeHtml(formatPhone(agent.phone))}</div>
+          <div style="display: flex; margin-top: 8px; font-size: 26px; color: #d1fae5;">${escapeHtml(agent.website)}</div>
+        </div>
+      </div>
+    </div>
+  `;
+}
+
+function renderPackageCard(
+  preview: PackagePreview,
+  agent: AgentData,
+  photo: string | null,
+  logo: string | null
+): string {
+  const facts = [
+    { label: 'Berangkat', value: preview.departureDate },
+    { label: 'Pulang', value: preview.returnDate },
+    { label: 'Maskapai', value: preview.airline },
+  ];
+
+  return `
+    <div style="display: flex; flex-direction: column; width: ${IMAGE_WIDTH}px; height: ${IMAGE_HEIGHT}px; padding: 48px 64px; background: linear-gradient(135deg, #064e3b 0%, #047857 100%); color: #ffffff; font-family: '${FONT_FAMILY}';">
+      <div style="display: flex; justify-content: space-between; align-items: center;">
+        ${renderBrand(logo)}
+        <div style="display: flex; padding: 10px 22px; border-radius: 999px; background: rgba(255, 255, 255, 0.15); font-size: 24px; font-weight: 700;">${escapeHtml(preview.seats)}</div>
+      </div>
+      <div style="display: flex; margin-top: 28px; font-size: 56px; font-weight: 700; line-height: 1.1;">${escapeHtml(preview.name)}</div>
+      <div style="display: flex; margin-top: 32px;">
+        ${facts.map(fact => `
+          <div style="display: flex; flex-direction: column; margin-right: 56px;">
+            <div style="display: flex; font-size: 22px; color: #a7f3d0;">${fact.label}</div>
+            <div style="display: flex; margin-top: 6px; font-size: 32px; font-weight: 700;">${escapeHtml(fact.value)}</div>
+          </div>
+        `).join('')}
+      </div>
+      <div style="display: flex; flex: 1;"></div>
+      <div style="display: flex; justify-content: space-between; align-items: flex-end;">
+        <div style="display: flex; align-items: center;">
+          ${renderAvatar(agent, photo, 96)}
+          <div style="display: flex; flex-direction: column; margin-left: 20px;">
+            <div style="display: flex; font-size: 30px; font-weight: 700;">${escapeHtml(agent.name)}</div>
+            <div style="display: flex; margin-top: 4px; font-size: 24px; color: #d1fae5;">WA ${escapeHtml(formatPhone(agent.phone))}</div>
+          </div>
+        </div>
+        ${preview.startingPrice
+          ? `<div style="display: flex; font-size: 52px; font-weight: 700; color: #fcd34d;">${escapeHtml(preview.startingPrice)}</div>`
+          : ''}
+      </div>
+    </div>
+  `;
+}
+
+// ============================================
+// Handlers
+// ============================================
+
+export const onRequest = async (context: OgContext) => {
+  const { request, env, params } = context;
+
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return new Response(null, { status: 405, headers: { 'Allow': 'GET, HEAD' } });
+  }
+
+  // Path segments after /og/ (e.g. ["bagas", "JBU1500"])
+  const segments = Array.isArray(params.path) ? params.path : [params.path || ''];
+  const [rawSlug, jadwalId, ...rest] = segments;
+  const agentSlug = (rawSlug || '').toLowerCase();
+  const agent = agentSlug ? await findActiveAgent(env, agentSlug) : null;
+
+  if (!agent || rest.length > 0) {
+    return notFound('Preview tidak ditemukan');
+  }
+
+  const url = new URL(request.url);
+  const { year } = parseUrlState(url.search);
+
+  const cache = (caches as unknown as { default: Cache }).default;
+  const cachePath = jadwalId ? `/og/${agentSlug}/${encodeURIComponent(jadwalId)}?y=${year}` : `/og/${agentSlug}`;
+  const cacheKey = new Request(`${url.origin}${cachePath}`, { method: 'GET' });
+
+  const cached = await cache.match(cacheKey);
+  if (cached) return cached;
+
+  const pkg = jadwalId
+    ? await getPackageById(jadwalId, {
+        yearCode: year,
+        useCache: false,
+        timeout: PACKAGE_LOOKUP_TIMEOUT,
+        baseUrl: url.origin,
+      })
+    : null;
+  if (jadwalId && !pkg) {
+    return notFound(`Paket ${jadwalId} tidak ditemukan`);
+  }
+
+  const [fonts, photo, logo] = await Promise.all([
+    loadFonts(),
+    loadAgentPhoto(env, url.origin, agentSlug, agent),
+    loadAssetDataUri(env, url.origin, BRAND_LOGO_PATH),
+  ]);
+  if (!fonts) return fallbackImage(env, url.origin);
+
+  const html = pkg
+    ? renderPackageCard(buildPackagePreview(pkg), agent, photo, logo)
+    : renderAgentCard(agent, photo, logo);
+
+  const image = new ImageResponse(html, {
+    width: IMAGE_WIDTH,
+    height: IMAGE_HEIGHT,
+    fonts: [
+      { name: FONT_FAMILY, data: fonts.regular, weight: 400, style: 'normal' },
+      { name: FONT_FAMILY, data: fonts.bold, weight: 700, style: 'normal' },
+    ],
+  });
+
+  // Replace the library's "immutable" caching: seats left goes stale
+  const response = new Response(image.body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'image/png',
+      'Cache-Control': `public, max-age=${IMAGE_CACHE_TTL}`,
+    },
+  });
+
+  context.waitUntil(cache.put(cacheKey, response.clone()));
+  return response;
+};
@@ -1,11 +1,87 @@
-import { useEffect, useState, useMemo, useCallback } from 'react';
-import { PackageCard, FilterHeader, FilterModal, type QuickFilterType, type TimeRange } from '@/components';
-import { getPackages } from '@/services';
-import { filterPackages, type FilterMode } from '@/utils';
+import { useEffect, useState, useMemo, useCallback, useRef } from 'react';
+import { Scale, X, Share2, FileDown, Loader2, CalendarSync } from 'lucide-react';
+import {
+  PackageCard,
+  FilterHeader,
+  FilterModal,
+  CompareModal,
+  DigestShareSheet,
+} from '@/components';
+import { getPackages, resolveAgent, type GetPackagesResult, type PackagesErrorCode } from '@/services';
+import {
+  applyFilterSpec,
+  getMatchingTiers,
+  hasTierCriteria,
+  countFilterCriteria,
+  describeFilterSpec,
+  DEFAULT_FILTER_SPEC,
+  MIN_COMPARE_PACKAGES,
+  MAX_COMPARE_PACKAGES,
+  parseUrlState,
+  serializeUrlState,
+  isSearchOnlyChange,
+  buildDigestMessages,
+  getWhatsAppShareUrl,
+  exportSchedulePdf,
+  exportPackagesCsv,
+  exportPackagesXlsx,
+  buildCalendarFeedUrl,
+  loadLocalAgentProfile,
+  toLocalAgent,
+  resolveAgentIdentity,
+  LOCAL_AGENT_STORAGE_KEY,
+  type AppUrlState,
+  type FilterSpec,
+} from '@/utils';
 import type { UmrohPackage } from '@/types';
-import { AGENTS_DATA, type AgentData } from '@/data/agents';
+import { getAgentBySlug, getSlugFromPath, type AgentData } from '@/data/agents';
 import FloatingAgentBar from '@/components/FloatingAgentBar';
 
+// ============================================
+// Constants
+// ============================================
+
+type ExportFormat = 'pdf' | 'xlsx' | 'csv';
+
+const EXPORT_OPTIONS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'pdf', label: 'PDF', description: 'Jadwal siap cetak' },
+  { value: 'xlsx', label: 'Excel (XLSX)', description: 'Per paket × paket hotel' },
+  { value: 'csv', label: 'CSV', description: 'Untuk spreadsheet lain' },
+];
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Format cache timestamp for the "data per" badge (e.g. "19 Okt, 14.05")
+ */
+const formatSnapshotTime = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString('id-ID', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+/**
+ * Error heading: own connection problem vs. schedule server outage
+ */
+const getErrorTitle = (code: PackagesErrorCode | null): string => {
+  switch (code) {
+    case 'NETWORK':
+    case 'TIMEOUT':
+      return 'Koneksi Internet Bermasalah';
+    case 'UPSTREAM_UNAVAILABLE':
+    case 'UPSTREAM_ERROR':
+    case 'UPSTREAM_INVALID':
+      return 'Server Jadwal Sedang Gangguan';
+    default:
+      return 'Gagal Memuat Data';
+  }
+};
+
 // ============================================
 // Main App Component
 // ============================================
@@ -17,18 +93,32 @@ function App() {
   const [packages, setPackages] = useState<UmrohPackage[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<PackagesErrorCode | null>(null);
+  /** Source and fetch time of the list currently shown (for the "data per" badge) */
+  const [dataSnapshot, setDataSnapshot] = useState<Pick<GetPackagesResult, 'source' | 'fetchedAt' | 'quarantined'> | null>(null);
+  /** Latest requested year, so late background refreshes for other years are ignored */
+  const activeYearRef = useRef<string | null>(null);
 
   // ============================================
-  // Filter State
+  // Filter State (restored from the URL on load)
   // ============================================
-  const [selectedYear, setSelectedYear] = useState('1448');
-  const [filterMode, setFilterMode] = useState<FilterMode>('AVAILABLE');
-  const [filterSecondaryValue, setFilterSecondaryValue] = useState('');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [expandedCardId, setExpandedCardId] = useState<string | null>(null);
-  const [quickFilter, setQuickFilter] = useState<QuickFilterType | null>(null);
+  const [initialUrlState] = useState(() => parseUrlState(window.location.search));
+  const [selectedYear, setSelectedYear] = useState(initialUrlState.year);
+  const [filterSpec, setFilterSpec] = useState<FilterSpec>(initialUrlState.filter);
+  const [expandedCardId, setExpandedCardId] = useState<string | null>(initialUrlState.expandedCardId);
   const [isFilterModalOpen, setIsFilterModalOpen] = useState(false);
 
+  // ============================================
+  // Comparison State
+  // ============================================
+  const [pinnedIds, setPinnedIds] = useState<string[]>([]);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+
+  // Digest parts waiting to be sent (split bulk share)
+  const [digestMessages, setDigestMessages] = useState<string[]>([]);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+
   // ============================================
   // Dark Mode State
   // ============================================
@@ -54,13 +144,41 @@ function App() {
   }, [isDarkMode]);
 
   // Detect agent from URL slug (shared state for SEO + FloatingAgentBar)
-  const [currentAgent, setCurrentAgent] = useState<AgentData | null>(null);
+  // Built-in list first for an instant render, then the runtime registry
+  const [currentAgent, setCurrentAgent] = useState<AgentData | null>(() =>
+    getAgentBySlug(getSlugFromPath(window.location.pathname))
+  );
+  useEffect(() => {
+    let cancelled = false;
+    resolveAgent(getSlugFromPath(window.location.pathname)).then(agent => {
+      if (!cancelled) setCurrentAgent(agent);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Local agent profile (FilterHeader form), kept in sync across tabs
+  const [localAgent, setLocalAgent] = useState<AgentData | null>(() => toLocalAgent(loadLocalAgentProfile()));
   useEffect(() => {
-    const slug = window.location.pathname.replace(/^\/+/, '').split('/')[0];
-    const agent = AGENTS_DATA[slug?.toLowerCase()];
-    setCurrentAgent(agent || null);
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === LOCAL_AGENT_STORAGE_KEY || e.key === null) {
+        setLocalAgent(toLocalAgent(loadLocalAgentProfile()));
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
 
-    // Dynamic SEO: Update title & description
+  // Agent shown on cards, share text and contact bar (link agent wins)
+  const activeAgent = useMemo(
+    () => resolveAgentIdentity(currentAgent, getSlugFromPath(window.location.pathname), localAgent),
+    [currentAgent, localAgent]
+  );
+
+  // Dynamic SEO: Update title & description
+  useEffect(() => {
+    const agent = currentAgent;
     if (agent) {
       document.title = `Jadwal Umroh Alhijaz | ${agent.name}`;
       const metaDesc = document.querySelector('meta[name="description"]');
@@ -74,30 +192,91 @@ function App() {
         metaDesc.setAttribute('content', 'Cek jadwal dan harga paket Umroh Alhijaz Indowisata');
       }
     }
-  }, []);
+  }, [currentAgent]);
 
   const toggleDarkMode = () => {
     setIsDarkMode(prev => !prev);
   };
 
-  // New Time Filter States
-  const [departureTimeRanges, setDepartureTimeRanges] = useState<TimeRange[]>([]);
-  const [returnTimeRanges, setReturnTimeRanges] = useState<TimeRange[]>([]);
+  // ============================================
+  // URL Sync (deep links + back button)
+  // ============================================
+  const urlState = useMemo<AppUrlState>(() => ({
+    year: selectedYear,
+    filter: filterSpec,
+    expandedCardId,
+  }), [selectedYear, filterSpec, expandedCardId]);
+
+  const lastUrlStateRef = useRef<AppUrlState>(initialUrlState);
+
+  // Mirror state into the query string (agent slug path is kept as-is)
+  useEffect(() => {
+    const search = serializeUrlState(urlState);
+    const previous = lastUrlStateRef.current;
+    lastUrlStateRef.current = urlState;
+    if (search === window.location.search) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    // Typing a search or normalizing a hand-written link replaces the entry
+    if (serializeUrlState(previous) === search || isSearchOnlyChange(previous, urlState)) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }, [urlState]);
+
+  // Back/forward: restore state from the URL
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseUrlState(window.location.search);
+      lastUrlStateRef.current = state;
+      setSelectedYear(state.year);
+      setFilterSpec(state.filter);
+      setExpandedCardId(state.expandedCardId);
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Deep link to a package: scroll the opened card into view once loaded
+  const hasScrolledToLinkRef = useRef(false);
+  useEffect(() => {
+    if (loading || hasScrolledToLinkRef.current || !initialUrlState.expandedCardId) return;
+    hasScrolledToLinkRef.current = true;
+    const card = document.querySelector(`[data-jadwal-id="${CSS.escape(initialUrlState.expandedCardId)}"]`);
+    card?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [loading, initialUrlState.expandedCardId]);
 
   // ============================================
   // Fetch Packages (triggered by year change)
   // ============================================
   const fetchPackages = useCallback(async (yearCode: string) => {
+    activeYearRef.current = yearCode;
     setLoading(true);
     setError(null);
+    setErrorCode(null);
     
-    const result = await getPackages({ yearCode });
+    const result = await getPackages({
+      yearCode,
+      // Fresh data arrived after serving the cached copy → swap the list
+      onRevalidate: (fresh) => {
+        if (activeYearRef.current !== yearCode) return;
+        setPackages(fresh.packages);
+        setDataSnapshot({ source: fresh.source, fetchedAt: fresh.fetchedAt, quarantined: fresh.quarantined });
+      },
+    });
+
+    if (activeYearRef.current !== yearCode) return;
     
     if (result.success) {
       setPackages(result.packages);
+      setDataSnapshot({ source: result.source, fetchedAt: result.fetchedAt, quarantined: result.quarantined });
     } else {
       setError(result.error || 'Gagal memuat data');
+      setErrorCode(result.errorCode ?? null);
       setPackages([]);
+      setDataSnapshot(null);
     }
     setLoading(false);
   }, []);
@@ -107,161 +286,98 @@ function App() {
     fetchPackages(selectedYear);
   }, [selectedYear, fetchPackages]);
 
-  /**
-   * Helper to check if a time (HH:MM) falls within selected ranges ('00-06', etc)
-   */
-  const isTimeInRanges = (timeStr: string, ranges: string[]): boolean => {
-    if (ranges.length === 0) return true; // No filter applied
-
-    // timeStr format "HH:MM", take hour
-    const hour = parseInt(timeStr.split(':')[0], 10);
-
-    return ranges.some(range => {
-      if (range === '00-06') return hour >= 0 && hour < 6;
-      if (range === '06-12') return hour >= 6 && hour < 12;
-      if (range === '12-18') return hour >= 12 && hour < 18;
-      if (range === '18-24') return hour >= 18 && hour <= 24;
-      return false;
-    });
-  };
-
   // ============================================
   // Filtered Packages (Client-side filtering)
   // ============================================
-  const filteredPackages = useMemo(() => {
-    // First apply mode filter
-    let result = filterPackages(packages, {
-      mode: filterMode,
-      secondaryValue: filterSecondaryValue,
-    });
-
-    // Apply Time Filters
-    if (departureTimeRanges.length > 0) {
-      result = result.filter(pkg => isTimeInRanges(pkg.keberangkatan.jam, departureTimeRanges));
-    }
-    if (returnTimeRanges.length > 0) {
-      result = result.filter(pkg => isTimeInRanges(pkg.kepulangan.jam, returnTimeRanges));
-    }
+  const filteredPackages = useMemo(() => applyFilterSpec(packages, filterSpec), [packages, filterSpec]);
 
-    // Apply quick filter
-    if (quickFilter) {
-      switch (quickFilter) {
-        case 'promo':
-          result = result.filter(pkg => pkg.isPromo);
-          break;
-        case 'urgent':
-          // Sort by lowest remaining seats (Ascending)
-          result = [...result].sort((a, b) => a.seatSisa - b.seatSisa);
-          break;
-        case 'termurah':
-          // Sort by price ascending
-          result = [...result].sort((a, b) => {
-            const getMin = (pkg: UmrohPackage) => {
-              let min = Infinity;
-              for (const tier of Object.values(pkg.harga)) {
-                const prices = [tier.Quard, tier.Triple, tier.Double].filter(Boolean);
-                for (const p of prices) {
-                  const val = parseInt(p!, 10);
-                  if (val > 0 && val < min) min = val;
-                }
-              }
-              return min;
-            };
-            return getMin(a) - getMin(b);
-          });
-          break;
-        case 'rahmah':
-          result = result.filter(pkg => pkg.nama.toLowerCase().includes('rahmah'));
-          break;
-      }
-    }
-
-    // Then apply search query (Omni Search)
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      result = result.filter(pkg => {
-        // 1. Package Name
-        const matchName = pkg.nama.toLowerCase().includes(query);
-
-        // 2. Airline & Flight Code
-        const matchAirline = pkg.maskapai.toLowerCase().includes(query);
-        const matchFlightCode = 
-          pkg.keberangkatan.kodePenerbangan.toLowerCase().includes(query) ||
-          pkg.kepulangan.kodePenerbangan.toLowerCase().includes(query);
-
-        // 3. Landing City (from route)
-        const landingCity = pkg.keberangkatan.rute.split(' - ')[1] || '';
-        const matchLanding = landingCity.toLowerCase().includes(query);
-
-        // 4. Hotel Names (Deep Check across all tiers)
-        const matchHotel = Object.values(pkg.hotel).some(hotelInfo => {
-          const mekkahHotel = (hotelInfo as { mekkah_hotel?: string }).mekkah_hotel || '';
-          const madinahHotel = (hotelInfo as { madinah_hotel?: string }).madinah_hotel || '';
-          return mekkahHotel.toLowerCase().includes(query) || 
-                 madinahHotel.toLowerCase().includes(query);
-        });
-
-        // 5. Smart Date (Indonesian format: "12 Oktober 2026")
-        const departureDate = new Date(pkg.keberangkatan.tgl);
-        const departureDateString = departureDate.toLocaleDateString('id-ID', {
-          day: 'numeric',
-          month: 'long',
-          year: 'numeric',
-        }).toLowerCase();
-        const matchDate = departureDateString.includes(query);
-
-        // 6. Raw date (YYYY-MM-DD format)
-        const matchRawDate = pkg.keberangkatan.tgl.includes(query) ||
-                             pkg.kepulangan.tgl.includes(query);
-
-        return matchName || matchAirline || matchFlightCode || matchLanding || matchHotel || matchDate || matchRawDate;
-      });
-    }
-
-    // Sort by departure date (unless urgent/termurah already sorted)
-    if (!quickFilter || (quickFilter !== 'urgent' && quickFilter !== 'termurah')) {
-      return result.sort((a, b) => 
-        new Date(a.keberangkatan.tgl).getTime() - new Date(b.keberangkatan.tgl).getTime()
-      );
-    }
-    
-    return result;
-  }, [packages, filterMode, filterSecondaryValue, searchQuery, quickFilter, departureTimeRanges, returnTimeRanges]);
+  // Pinned packages in pin order (dropped when they leave the loaded year)
+  const pinnedPackages = useMemo(() => {
+    return pinnedIds
+      .map(id => packages.find(pkg => pkg.jadwalId === id))
+      .filter((pkg): pkg is UmrohPackage => !!pkg);
+  }, [pinnedIds, packages]);
 
   // ============================================
   // Handlers
   // ============================================
   const handleYearChange = (year: string) => {
     setSelectedYear(year);
+    setPinnedIds([]);
+    setExpandedCardId(null);
     // Reset filters when year changes
-    setFilterMode('AVAILABLE');
-    setFilterSecondaryValue('');
-    setSearchQuery('');
-    setQuickFilter(null);
-    setDepartureTimeRanges([]);
-    setReturnTimeRanges([]);
-  };
-
-  const handleFilterModeChange = (mode: FilterMode) => {
-    setFilterMode(mode);
-    setFilterSecondaryValue('');
+    setFilterSpec(DEFAULT_FILTER_SPEC);
   };
 
-  const handleSecondaryValueChange = (value: string) => {
-    setFilterSecondaryValue(value);
+  const handleSearchChange = (search: string) => {
+    setFilterSpec(spec => ({ ...spec, search }));
   };
 
   const handleToggleCard = (id: string) => {
     setExpandedCardId(prevId => prevId === id ? null : id);
   };
 
+  const handleTogglePin = (id: string) => {
+    setPinnedIds(prev => {
+      if (prev.includes(id)) return prev.filter(pinnedId => pinnedId !== id);
+      if (prev.length >= MAX_COMPARE_PACKAGES) return prev;
+      return [...prev, id];
+    });
+  };
+
+  const handleUnpin = (id: string) => {
+    const remaining = pinnedIds.filter(pinnedId => pinnedId !== id);
+    setPinnedIds(remaining);
+    if (remaining.length < MIN_COMPARE_PACKAGES) setIsCompareOpen(false);
+  };
+
+  // Share the filtered list as one digest (a sheet of parts when it's split)
+  const handleShareResults = () => {
+    const listLink = `${window.location.origin}/${getSlugFromPath(window.location.pathname)}${serializeUrlState({ ...urlState, expandedCardId: null })}`;
+    const messages = buildDigestMessages(filteredPackages, { agent: activeAgent, listLink });
+    if (messages.length === 1) {
+      window.open(getWhatsAppShareUrl(messages[0]), '_blank');
+    } else {
+      setDigestMessages(messages);
+    }
+  };
+
+  // Download the filtered list (PDF schedule or spreadsheet), generated in the browser
+  const handleExport = async (format: ExportFormat) => {
+    if (exportingFormat) return;
+    setIsExportMenuOpen(false);
+    setExportingFormat(format);
+
+    const fileName = `jadwal-umroh-${selectedYear}`;
+    try {
+      if (format === 'pdf') {
+        await exportSchedulePdf(filteredPackages, {
+          year: selectedYear,
+          filterSummary: describeFilterSpec(filterSpec),
+          agent: activeAgent,
+        });
+      } else if (format === 'xlsx') {
+        await exportPackagesXlsx(filteredPackages, fileName);
+      } else {
+        exportPackagesCsv(filteredPackages, fileName);
+      }
+    } catch (error: unknown) {
+      console.error(error);
+      alert('Gagal membuat file: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  // Subscribe to upcoming departures matching the list (webcal:// opens the calendar app)
+  const handleSubscribeCalendar = () => {
+    setIsExportMenuOpen(false);
+    const slug = getSlugFromPath(window.location.pathname);
+    window.location.href = buildCalendarFeedUrl(window.location.origin, slug, urlState);
+  };
+
   const handleResetFilters = () => {
-    setFilterMode('AVAILABLE');
-    setFilterSecondaryValue('');
-    setSearchQuery('');
-    setQuickFilter(null);
-    setDepartureTimeRanges([]);
-    setReturnTimeRanges([]);
+    setFilterSpec(DEFAULT_FILTER_SPEC);
   };
 
 
@@ -278,22 +394,18 @@ function App() {
         packages={packages}
         year={selectedYear}
         availableYears={['1448', '1449']}
-        filterMode={filterMode}
-        secondaryValue={filterSecondaryValue}
+        filterSpec={filterSpec}
         onYearChange={handleYearChange}
-        onFilterModeChange={handleFilterModeChange}
-        onSecondaryValueChange={handleSecondaryValueChange}
+        onFilterSpecChange={setFilterSpec}
         isDarkMode={isDarkMode}
         onToggleDarkMode={toggleDarkMode}
-        searchQuery={searchQuery}
-        onSearchChange={setSearchQuery}
+        searchQuery={filterSpec.search}
+        onSearchChange={handleSearchChange}
         onToggleFilter={() => setIsFilterModalOpen(true)}
-        isFilterActive={!!quickFilter || departureTimeRanges.length > 0 || returnTimeRanges.length > 0}
-        onClearFilter={() => {
-          setQuickFilter(null);
-          setDepartureTimeRanges([]);
-          setReturnTimeRanges([]);
-        }}
+        isFilterActive={countFilterCriteria(filterSpec) > 0}
+        isAgentMode={!!currentAgent}
+        onAgentProfileChange={profile => setLocalAgent(toLocalAgent(profile))}
+        onClearFilter={() => setFilterSpec(spec => ({ ...DEFAULT_FILTER_SPEC, search: spec.search }))}
       />
 
       {/* ============================================ */}
@@ -319,7 +431,7 @@ function App() {
                 <path fillRule="evenodd" d="M18 10a8 8 0 1 1-16 0 8 8 0 0 1 16 0Zm-8-5a.75.75 0 0 1 .75.75v4.5a.75.75 0 0 1-1.5 0v-4.5A.75.75 0 0 1 10 5Zm0 10a1 1 0 1 0 0-2 1 1 0 0 0 0 2Z" clipRule="evenodd" />
               </svg>
             </div>
-            <p className="text-red-700 font-medium mb-1">Gagal Memuat Data</p>
+            <p className="text-red-700 font-medium mb-1">{getErrorTitle(errorCode)}</p>
             <p className="text-red-600 text-sm mb-4">{error}</p>
             <button 
               onClick={() => fetchPackages(selectedYear)}
@@ -333,6 +445,78 @@ function App() {
         {/* Package List */}
         {!loading && !error && (
           <div className="space-y-3">
+            {/* Cached Data Badge (shown until the background refresh lands) */}
+            {dataSnapshot?.source === 'cache' && dataSnapshot.fetchedAt && (
+              <div className="flex justify-center">
+                <span className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-700/50 text-[11px] font-medium text-amber-700 dark:text-amber-300">
+                  <span className="w-1.5 h-1.5 rounded-full bg-amber-500 animate-pulse" />
+                  Data per {formatSnapshotTime(dataSnapshot.fetchedAt)}
+                </span>
+              </div>
+            )}
+
+            {/* Quarantined Records Note (invalid data from the API is hidden) */}
+            {dataSnapshot && dataSnapshot.quarantined.length > 0 && (
+              <p className="text-center text-[11px] text-gray-400 dark:text-slate-500">
+                {dataSnapshot.quarantined.length} paket disembunyikan karena datanya tidak valid
+              </p>
+            )}
+
+            {/* Results Toolbar */}
+            {filteredPackages.length > 0 && (
+              <div className="flex items-center justify-between px-1">
+                <span className="text-xs font-medium text-gray-500 dark:text-slate-400">
+                  {filteredPackages.length} paket
+                </span>
+                <div className="flex items-center gap-2">
+                  <div className="relative">
+                    <button
+                      onClick={() => setIsExportMenuOpen(open => !open)}
+                      disabled={!!exportingFormat}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-gray-100 dark:bg-slate-800 text-gray-700 dark:text-slate-200 text-xs font-bold hover:bg-gray-200 dark:hover:bg-slate-700 disabled:opacity-60 transition-all active:scale-[0.96]"
+                    >
+                      {exportingFormat ? <Loader2 size={14} className="animate-spin" /> : <FileDown size={14} />}
+                      Unduh
+                    </button>
+                    {isExportMenuOpen && (
+                      <>
+                        <div className="fixed inset-0 z-30" onClick={() => setIsExportMenuOpen(false)} />
+                        <div className="absolute right-0 mt-1 z-40 w-44 py-1 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-gray-100 dark:border-slate-700">
+                          {EXPORT_OPTIONS.map(option => (
+                            <button
+                              key={option.value}
+                              onClick={() => handleExport(option.value)}
+                              className="w-full px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+                            >
+                              <span className="block text-xs font-bold text-gray-800 dark:text-white">{option.label}</span>
+                              <span className="block text-[10px] text-gray-500 dark:text-slate-400">{option.description}</span>
+                            </button>
+                          ))}
+                          <button
+                            onClick={handleSubscribeCalendar}
+                            className="w-full flex items-start gap-2 px-3 py-2 mt-1 border-t border-gray-100 dark:border-slate-700 text-left hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+                          >
+                            <CalendarSync size={14} className="mt-0.5 text-emerald-600 dark:text-emerald-400" />
+                            <span>
+                              <span className="block text-xs font-bold text-gray-800 dark:text-white">Langganan Kalender</span>
+                              <span className="block text-[10px] text-gray-500 dark:text-slate-400">Keberangkatan selalu terbaru</span>
+                            </span>
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                  <button
+                    onClick={handleShareResults}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-[#25D366]/10 text-[#128C7E] dark:text-[#25D366] text-xs font-bold hover:bg-[#25D366]/20 transition-all active:scale-[0.96]"
+                  >
+                    <Share2 size={14} />
+                    Bagikan Hasil
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Package Cards */}
             {filteredPackages.map((pkg) => (
               <PackageCard
@@ -340,7 +524,12 @@ function App() {
                 package={pkg}
                 isExpanded={expandedCardId === pkg.jadwalId}
                 onToggle={() => handleToggleCard(pkg.jadwalId)}
-                agent={currentAgent}
+                agent={activeAgent}
+                year={selectedYear}
+                isPinned={pinnedIds.includes(pkg.jadwalId)}
+                onTogglePin={() => handleTogglePin(pkg.jadwalId)}
+                isPinDisabled={pinnedIds.length >= MAX_COMPARE_PACKAGES}
+                matchingTiers={hasTierCriteria(filterSpec) ? getMatchingTiers(pkg, filterSpec) : undefined}
               />
             ))}
 
@@ -363,9 +552,7 @@ function App() {
                   Tidak ada paket ditemukan
                 </p>
                 <p className="text-gray-400 text-sm mb-6 max-w-xs mx-auto">
-                  Tidak ada paket dengan kriteria "{filterMode}"
-                  {filterSecondaryValue && ` - ${filterSecondaryValue}`}
-                  {searchQuery && ` dan pencarian "${searchQuery}"`}
+                  Tidak ada paket dengan kriteria "{describeFilterSpec(filterSpec)}"
                 </p>
                 <button
                   onClick={handleResetFilters}
@@ -417,18 +604,52 @@ function App() {
       <FilterModal
         isOpen={isFilterModalOpen}
         onClose={() => setIsFilterModalOpen(false)}
-        selectedFilter={quickFilter}
-        onSelectFilter={setQuickFilter}
-        departureRanges={departureTimeRanges}
-        onDepartureRangeChange={setDepartureTimeRanges}
-        returnRanges={returnTimeRanges}
-        onReturnRangeChange={setReturnTimeRanges}
+        packages={packages}
+        spec={filterSpec}
+        onSpecChange={setFilterSpec}
+      />
+
+      {/* ============================================ */}
+      {/* COMPARE BAR + MODAL */}
+      {/* ============================================ */}
+      {pinnedPackages.length > 0 && (
+        <div className={`fixed left-4 right-4 z-50 max-w-lg mx-auto ${activeAgent ? 'bottom-24' : 'bottom-6'}`}>
+          <div className="flex items-center gap-2 p-2 pl-4 bg-gray-900/95 dark:bg-slate-700/95 backdrop-blur-md text-white rounded-full shadow-2xl">
+            <Scale size={16} className="shrink-0 text-emerald-400" />
+            <span className="flex-1 text-xs font-medium truncate">
+              {pinnedPackages.length}/{MAX_COMPARE_PACKAGES} paket dipilih
+            </span>
+            <button
+              onClick={() => setPinnedIds([])}
+              className="p-2 rounded-full text-gray-300 hover:bg-white/10 transition-colors"
+              aria-label="Hapus pilihan perbandingan"
+            >
+              <X size={14} />
+            </button>
+            <button
+              onClick={() => setIsCompareOpen(true)}
+              disabled={pinnedPackages.length < MIN_COMPARE_PACKAGES}
+              className="px-4 py-2 rounded-full bg-emerald-500 hover:bg-emerald-600 disabled:bg-gray-600 disabled:text-gray-400 text-xs font-bold transition-all active:scale-[0.96]"
+            >
+              Bandingkan
+            </button>
+          </div>
+        </div>
+      )}
+
+      <DigestShareSheet messages={digestMessages} onClose={() => setDigestMessages([])} />
+
+      <CompareModal
+        isOpen={isCompareOpen && pinnedPackages.length >= MIN_COMPARE_PACKAGES}
+        onClose={() => setIsCompareOpen(false)}
+        packages={pinnedPackages}
+        onRemove={handleUnpin}
       />
 
       {/* ============================================ */}
-      {/* FLOATING AGENT BAR (only in agent mode) */}
+      {/* FLOATING AGENT BAR (link agent or saved local profile) */}
       {/* ============================================ */}
-      {currentAgent && <FloatingAgentBar agent={currentAgent} />}
+      {activeAgent && <FloatingAgentBar agent={activeAgent} />}
     </div>
   );
 }
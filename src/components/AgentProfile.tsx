@@ -1,4 +1,4 @@
-import type { AgentData } from '../data/agents';
+import { getAgentAvatarFallback, type AgentData } from '../data/agents';
 
 interface AgentProfileProps {
   agent: AgentData;
@@ -22,11 +22,11 @@ export default function AgentProfile({ agent, packageName = "Umrah Alhijaz" }: A
         {/* Foto Profil dengan Ring */}
         <div className="relative w-11 h-11 flex-shrink-0">
             <img 
-              src={agent.photo} 
+              src={agent.photo || getAgentAvatarFallback(agent.name)} 
               alt={agent.name} 
               className="w-full h-full object-cover rounded-full border-2 border-white dark:border-slate-700 shadow-md"
               onError={(e) => {
-                  (e.target as HTMLImageElement).src = `https://ui-avatars.com/api/?name=${encodeURIComponent(agent.name)}&background=random`;
+                  (e.target as HTMLImageElement).src = getAgentAvatarFallback(agent.name);
               }}
             />
         </div>
@@ -0,0 +1,214 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Share2, Camera, Loader2 } from 'lucide-react';
+import html2canvas from 'html2canvas';
+import type { UmrohPackage } from '@/types';
+import { buildComparisonRows, buildComparisonMessage } from '@/utils';
+
+// ============================================
+// Types
+// ============================================
+
+export interface CompareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Pinned packages, in pin order */
+  packages: UmrohPackage[];
+  /** Unpin a package from inside the comparison */
+  onRemove: (jadwalId: string) => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export function CompareModal({ isOpen, onClose, packages, onRemove }: CompareModalProps) {
+  const tableRef = useRef<HTMLDivElement>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  const rows = useMemo(() => buildComparisonRows(packages), [packages]);
+
+  if (!isOpen) return null;
+
+  // Share comparison as one WhatsApp text
+  const handleShareText = () => {
+    const message = buildComparisonMessage(packages);
+    window.open(`https://wa.me/?text=${encodeURIComponent(message)}`, '_blank');
+  };
+
+  // Share comparison table as one image (Share API first, download fallback)
+  const handleShareImage = async () => {
+    if (!tableRef.current || isCapturing) return;
+    setIsCapturing(true);
+
+    try {
+      const el = tableRef.current;
+      const canvas = await html2canvas(el, {
+        scale: 2,
+        backgroundColor: '#ffffff',
+        logging: false,
+        width: el.scrollWidth,
+        windowWidth: el.scrollWidth,
+        onclone: (doc) => {
+          doc.documentElement.classList.remove('dark');
+        },
+      });
+
+      const dataUrl = canvas.toDataURL('image/png');
+      const blob = await (await fetch(dataUrl)).blob();
+      const fileName = `perbandingan-${packages.map(p => p.jadwalId).join('-').toLowerCase()}.png`;
+      const file = new File([blob], fileName, { type: 'image/png' });
+      const shareData = {
+        title: 'Perbandingan Paket Umrah',
+        text: 'Berikut perbandingan paket umrah pilihan Anda.',
+        files: [file],
+      };
+
+      const download = () => {
+        const link = document.createElement('a');
+        link.download = fileName;
+        link.href = dataUrl;
+        link.click();
+      };
+
+      if (navigator.canShare && navigator.canShare(shareData)) {
+        try {
+          await navigator.share(shareData);
+        } catch (err: unknown) {
+          if (!(err instanceof Error && err.name === 'AbortError')) download();
+        }
+      } else {
+        download();
+      }
+    } catch (error: unknown) {
+      console.error(error);
+      alert('Gagal memproses gambar: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  let lastSection = '';
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-white dark:bg-slate-900 flex flex-col animate-in fade-in duration-200">
+
+      {/* ─── STICKY HEADER ─── */}
+      <div className="flex-none sticky top-0 z-10 bg-white/90 dark:bg-slate-900/90 backdrop-blur-xl border-b border-gray-200/60 dark:border-slate-700/60 px-5 py-4 flex justify-between items-center shadow-sm">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">Bandingkan Paket</h2>
+          <p className="text-[11px] text-gray-500 dark:text-slate-400">
+            Baris yang berbeda ditandai warna kuning
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 bg-gray-100 dark:bg-slate-800 rounded-full text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-700 transition-colors"
+        >
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      {/* ─── SCROLLABLE TABLE ─── */}
+      <div className="flex-1 overflow-auto">
+        <div ref={tableRef} className="min-w-max bg-white dark:bg-slate-900">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                <th className="sticky left-0 z-[1] bg-gray-50 dark:bg-slate-800 p-3 text-left text-[10px] uppercase tracking-wide text-gray-400 w-28 border-b border-gray-200 dark:border-slate-700">
+                  Paket
+                </th>
+                {packages.map(pkg => (
+                  <th
+                    key={pkg.jadwalId}
+                    className="bg-gray-50 dark:bg-slate-800 p-3 text-left align-top w-44 border-b border-l border-gray-200 dark:border-slate-700"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-bold text-gray-900 dark:text-white leading-tight line-clamp-2">{pkg.nama}</p>
+                        <p className="mt-0.5 font-medium text-gray-400">{pkg.jadwalId}</p>
+                      </div>
+                      <button
+                        data-html2canvas-ignore
+                        onClick={() => onRemove(pkg.jadwalId)}
+                        className="shrink-0 p-1 rounded-full text-gray-400 hover:bg-red-50 hover:text-red-500 transition-colors"
+                        aria-label={`Hapus ${pkg.jadwalId} dari perbandingan`}
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const showSection = row.section !== lastSection;
+                lastSection = row.section;
+                return [
+                  showSection && (
+                    <tr key={`section-${row.section}`}>
+                      <td
+                        colSpan={packages.length + 1}
+                        className="sticky left-0 px-3 pt-4 pb-1 text-[10px] font-bold uppercase tracking-wider text-emerald-700 dark:text-emerald-400"
+                      >
+                        {row.section}
+                      </td>
+                    </tr>
+                  ),
+                  <tr
+                    key={row.key}
+                    className={row.isDifferent ? 'bg-amber-50 dark:bg-amber-900/20' : ''}
+                  >
+                    <td className={`sticky left-0 p-3 font-medium text-gray-500 dark:text-slate-400 border-b border-gray-100 dark:border-slate-800 ${
+                      row.isDifferent ? 'bg-amber-50 dark:bg-slate-800' : 'bg-white dark:bg-slate-900'
+                    }`}>
+                      {row.label}
+                    </td>
+                    {row.values.map((value, i) => (
+                      <td
+                        key={`${row.key}-${packages[i].jadwalId}`}
+                        className={`p-3 align-top border-b border-l border-gray-100 dark:border-slate-800 ${
+                          row.isDifferent
+                            ? 'font-semibold text-gray-900 dark:text-white'
+                            : 'text-gray-700 dark:text-slate-300'
+                        }`}
+                      >
+                        {value}
+                      </td>
+                    ))}
+                  </tr>,
+                ];
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* ─── FIXED FOOTER ─── */}
+      <div className="flex-none sticky bottom-0 bg-white dark:bg-slate-900 border-t border-gray-200/60 dark:border-slate-700/60 p-4 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)] grid grid-cols-2 gap-3">
+        <button
+          onClick={handleShareImage}
+          disabled={isCapturing}
+          className="bg-purple-600 hover:bg-purple-700 disabled:opacity-60 text-white font-bold py-3.5 rounded-xl flex items-center justify-center gap-2 transition-all shadow-lg shadow-purple-500/30 active:scale-[0.98]"
+        >
+          {isCapturing ? <Loader2 className="w-5 h-5 animate-spin" /> : <Camera className="w-5 h-5" />}
+          <span>{isCapturing ? 'Proses...' : 'Gambar'}</span>
+        </button>
+        <button
+          onClick={handleShareText}
+          className="bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-3.5 rounded-xl flex items-center justify-center gap-2 transition-all shadow-lg shadow-emerald-500/30 active:scale-[0.98]"
+        >
+          <Share2 className="w-5 h-5" />
+          <span>WhatsApp</span>
+        </button>
+      </div>
+
+    </div>,
+    document.body
+  );
+}
+
+export default CompareModal;
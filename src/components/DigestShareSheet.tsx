@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Send, Check } from 'lucide-react';
+import { getWhatsAppShareUrl } from '@/utils';
+
+// ============================================
+// Types
+// ============================================
+
+export interface DigestShareSheetProps {
+  /** Digest parts; the sheet is open while there are messages */
+  messages: string[];
+  onClose: () => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+/**
+ * Sends a split digest one part per tap (browsers block several
+ * wa.me windows opened at once)
+ */
+export function DigestShareSheet({ messages, onClose }: DigestShareSheetProps) {
+  const [sentParts, setSentParts] = useState<number[]>([]);
+
+  // New digest, nothing sent yet
+  useEffect(() => {
+    setSentParts([]);
+  }, [messages]);
+
+  if (messages.length === 0) return null;
+
+  const handleSend = (index: number) => {
+    window.open(getWhatsAppShareUrl(messages[index]), '_blank');
+    setSentParts(current => (current.includes(index) ? current : [...current, index]));
+  };
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9999] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-lg bg-white dark:bg-slate-900 rounded-t-3xl sm:rounded-3xl shadow-2xl p-5 space-y-4 animate-in slide-in-from-bottom-8"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h3 className="font-bold text-gray-900 dark:text-white text-lg">Bagikan Hasil</h3>
+            <p className="text-xs text-gray-500 dark:text-slate-400">
+              Daftar terlalu panjang untuk satu pesan, kirim {messages.length} bagian berurutan.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full bg-gray-100 dark:bg-slate-800 text-gray-500 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-700 transition-colors"
+            aria-label="Tutup"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          {messages.map((message, index) => {
+            const isSent = sentParts.includes(index);
+            const lineCount = message.split('\n').filter(line => line.startsWith('•')).length;
+            return (
+              <button
+                key={index}
+                onClick={() => handleSend(index)}
+                className={`w-full flex items-center justify-between px-4 py-3 rounded-xl border transition-all active:scale-[0.98]
+                  ${isSent
+                    ? 'border-emerald-200 bg-emerald-50 dark:border-emerald-800 dark:bg-emerald-900/30'
+                    : 'border-gray-200 dark:border-slate-700 hover:bg-gray-50 dark:hover:bg-slate-800'
+                  }`}
+              >
+                <span className="text-left">
+                  <span className="block text-sm font-bold text-gray-900 dark:text-white">
+                    Bagian {index + 1}/{messages.length}
+                  </span>
+                  <span className="block text-[11px] text-gray-500 dark:text-slate-400">
+                    {lineCount > 0 ? `${lineCount} paket` : 'Kontak & link'}
+                  </span>
+                </span>
+                {isSent ? (
+                  <Check className="w-5 h-5 text-emerald-600" />
+                ) : (
+                  <Send className="w-5 h-5 text-[#25D366]" />
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+export default DigestShareSheet;
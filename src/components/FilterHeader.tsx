@@ -4,15 +4,26 @@ import { useMemo, useRef, useState, useEffect, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import type { UmrohPackage } from '@/types';
 import { 
-  FilterMode, 
   extractUniqueLandings, 
   groupByMonth,
+  formatMonthRange,
+  getCityName,
+  loadLocalAgentProfile,
+  saveLocalAgentProfile,
+  clearLocalAgentProfile,
+  readLocalAgentPhoto,
+  toLocalAgent,
+  SHARE_FORMAT_OPTIONS,
+  DEFAULT_SHARE_FORMAT,
+  type LocalAgentProfile,
+  type FilterSpec,
   type LandingCity,
   type MonthGroup,
 } from '@/utils';
 import logoAlhijaz from '@/logo-alhijaz.webp';
-import { Sun, Moon, Search, X, SlidersHorizontal, User, Globe, Save, Trash2, CheckCircle } from 'lucide-react';
-import { AGENTS_DATA } from '@/data/agents';
+import { ShareTemplateEditor } from './ShareTemplateEditor';
+import { Sun, Moon, Search, X, SlidersHorizontal, User, Globe, Save, Trash2, CheckCircle, Camera, PencilLine } from 'lucide-react';
+import { getAgentAvatarFallback } from '@/data/agents';
 
 // ============================================
 // Types
@@ -25,14 +36,11 @@ export interface FilterHeaderProps {
   year: string;
   /** Available years for selection */
   availableYears?: string[];
-  /** Current filter mode */
-  filterMode: FilterMode;
-  /** Secondary filter value (city name or month key) */
-  secondaryValue?: string;
+  /** Current filter (the header edits availability, landing and month) */
+  filterSpec: FilterSpec;
   /** Callbacks */
   onYearChange: (year: string) => void;
-  onFilterModeChange: (mode: FilterMode) => void;
-  onSecondaryValueChange: (value: string) => void;
+  onFilterSpecChange: (spec: FilterSpec) => void;
   /** Dark mode state */
   isDarkMode: boolean;
   /** Toggle dark mode callback */
@@ -47,17 +55,21 @@ export interface FilterHeaderProps {
   isFilterActive?: boolean;
   /** Callback to clear filters */
   onClearFilter?: () => void;
+  /** Page opened through an agent link (hides the agent profile editor) */
+  isAgentMode?: boolean;
+  /** Called after the local agent profile is saved (null when deleted) */
+  onAgentProfileChange?: (profile: LocalAgentProfile | null) => void;
 }
 
-// Filter mode options for dropdown
-const FILTER_MODE_OPTIONS: { value: FilterMode; label: string }[] = [
-  { value: 'AVAILABLE', label: 'AVAILABLE' },
-  { value: 'LANDING', label: 'LANDING' },
-  { value: 'PROMO', label: 'PROMO' },
-  { value: 'DATA PER-BULAN', label: 'DATA PER-BULAN' },
-  { value: 'SEMUA DATA', label: 'SEMUA DATA' },
+// Seat availability options for dropdown
+const AVAILABILITY_OPTIONS: { value: 'available' | 'all'; label: string }[] = [
+  { value: 'available', label: 'Seat Tersedia' },
+  { value: 'all', label: 'Semua Paket' },
 ];
 
+/** Select value for several landings / a month range (set from the filter sheet or a link) */
+const MULTIPLE_VALUE = '*';
+
 // ============================================
 // Component
 // ============================================
@@ -66,11 +78,9 @@ export function FilterHeader({
   packages,
   year,
   availableYears = ['1448', '1449'],
-  filterMode,
-  secondaryValue,
+  filterSpec,
   onYearChange,
-  onFilterModeChange,
-  onSecondaryValueChange,
+  onFilterSpecChange,
   isDarkMode,
   onToggleDarkMode,
   searchQuery,
@@ -78,44 +88,54 @@ export function FilterHeader({
   onToggleFilter,
   isFilterActive = false,
   onClearFilter,
+  isAgentMode = false,
+  onAgentProfileChange,
 }: FilterHeaderProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const [isVisible, setIsVisible] = useState(true);
   const [lastScrollY, setLastScrollY] = useState(0);
 
-  // Detect agent mode from URL slug
-  const [isAgentMode, setIsAgentMode] = useState(false);
-  useEffect(() => {
-    const slug = window.location.pathname.replace(/^\/+/, '').split('/')[0];
-    setIsAgentMode(!!AGENTS_DATA[slug?.toLowerCase()]);
-  }, []);
-
   // Agent Profile State
   const [showProfileModal, setShowProfileModal] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [toastMessage, setToastMessage] = useState("");
-  const [agentProfile, setAgentProfile] = useState({ name: '', phone: '', website: '' });
+  const [agentProfile, setAgentProfile] = useState<LocalAgentProfile>({ name: '', phone: '', website: '' });
   const [hasSavedData, setHasSavedData] = useState(false);
   const [errors, setErrors] = useState({ name: false, phone: false, website: false });
+  const [photoError, setPhotoError] = useState('');
+  const [showTemplateEditor, setShowTemplateEditor] = useState(false);
 
   // Load agent profile from localStorage on mount
   useEffect(() => {
-    const saved = localStorage.getItem('agentProfile');
+    const saved = loadLocalAgentProfile();
     if (saved) {
-      try { 
-        setAgentProfile(JSON.parse(saved)); 
-        setHasSavedData(true);
-      } catch { /* ignore */ }
+      setAgentProfile(saved);
+      setHasSavedData(true);
     }
   }, []);
 
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const photo = await readLocalAgentPhoto(file);
+      setAgentProfile(profile => ({ ...profile, photo }));
+      setPhotoError('');
+    } catch {
+      setPhotoError('File bukan gambar yang valid');
+    }
+  };
+
   const handleCloseModal = () => {
     setIsClosing(true);
     setTimeout(() => {
       setShowProfileModal(false);
       setIsClosing(false);
       setErrors({ name: false, phone: false, website: false });
+      setPhotoError('');
     }, 300);
   };
 
@@ -128,8 +148,15 @@ export function FilterHeader({
     setErrors(newErrors);
     if (newErrors.name || newErrors.phone || newErrors.website) return;
 
-    localStorage.setItem('agentProfile', JSON.stringify(agentProfile));
-    
+    try {
+      saveLocalAgentProfile(agentProfile);
+    } catch {
+      // localStorage full (large photo on an old browser)
+      setPhotoError('Penyimpanan penuh, coba foto lain');
+      return;
+    }
+    onAgentProfileChange?.(agentProfile);
+
     setHasSavedData(true);
     setToastMessage("Simpan Berhasil");
     setShowSuccess(true);
@@ -138,7 +165,8 @@ export function FilterHeader({
   };
 
   const handleDeleteProfile = () => {
-    localStorage.removeItem('agentProfile');
+    clearLocalAgentProfile();
+    onAgentProfileChange?.(null);
     setAgentProfile({ name: '', phone: '', website: '' });
     setHasSavedData(false);
     setToastMessage("Berhasil Dihapus");
@@ -189,9 +217,19 @@ export function FilterHeader({
     return groupByMonth(packages);
   }, [packages]);
 
-  // Check if secondary dropdown should be shown
-  const showLandingDropdown = filterMode === 'LANDING';
-  const showMonthDropdown = filterMode === 'DATA PER-BULAN';
+  // Header selects show one landing / one month; anything wider is a fixed extra option
+  const { landings, months } = filterSpec;
+  const landingValue = landings.length > 1 ? MULTIPLE_VALUE : landings[0] || '';
+  const isSingleMonth = !!months.from && months.from === months.to;
+  const monthValue = isSingleMonth ? months.from! : months.from || months.to ? MULTIPLE_VALUE : '';
+
+  const handleLandingChange = (value: string) => {
+    onFilterSpecChange({ ...filterSpec, landings: value ? [value] : [] });
+  };
+
+  const handleMonthChange = (value: string) => {
+    onFilterSpecChange({ ...filterSpec, months: { from: value || null, to: value || null } });
+  };
 
   return (
     <header 
@@ -303,16 +341,11 @@ export function FilterHeader({
         {/* ROW 2: Filter Dropdowns */}
         {/* ============================================ */}
         <div className="flex gap-2 mt-3">
-          {/* Main Filter Dropdown */}
-          <div className="relative flex-1">
+          {/* Seat Availability */}
+          <div className="relative flex-1 min-w-0">
             <select
-              value={filterMode}
-              onChange={(e) => {
-                const newMode = e.target.value as FilterMode;
-                onFilterModeChange(newMode);
-                // Reset secondary value when mode changes
-                onSecondaryValueChange('');
-              }}
+              value={filterSpec.availableOnly ? 'available' : 'all'}
+              onChange={(e) => onFilterSpecChange({ ...filterSpec, availableOnly: e.target.value === 'available' })}
               className="
                 w-full appearance-none
                 px-3 py-2.5 pr-8
@@ -326,7 +359,7 @@ export function FilterHeader({
                 transition-colors
               "
             >
-              {FILTER_MODE_OPTIONS.map((option) => (
+              {AVAILABILITY_OPTIONS.map((option) => (
                 <option key={option.value} value={option.value}>
                   {option.label}
                 </option>
@@ -342,79 +375,85 @@ export function FilterHeader({
             </svg>
           </div>
 
-          {/* Secondary Dropdown: Landing Cities */}
-          {showLandingDropdown && (
-            <div className="relative flex-1 animate-in slide-in-from-right-2 duration-200">
-              <select
-                value={secondaryValue || ''}
-                onChange={(e) => onSecondaryValueChange(e.target.value)}
-                className="
-                  w-full appearance-none
-                  px-3 py-2.5 pr-8
-                  text-sm font-medium text-gray-700
-                  bg-gray-100/80 border border-transparent
-                  dark:bg-slate-800/80 dark:border-transparent dark:text-slate-200
-                  rounded-xl
-                  cursor-pointer
-                  hover:bg-gray-200/80 dark:hover:bg-slate-700/80
-                  focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:bg-white dark:focus:bg-slate-800
-                  transition-colors
-                "
-              >
-                <option value="">- pilih kota landing -</option>
-                {landingCities.map((city) => (
-                  <option key={city.code} value={city.code}>
-                    {city.name}
-                  </option>
-                ))}
-              </select>
-              <svg 
-                xmlns="http://www.w3.org/2000/svg" 
-                viewBox="0 0 20 20" 
-                fill="currentColor" 
-                className="w-4 h-4 text-gray-400 absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none"
-              >
-                <path fillRule="evenodd" d="M5.23 7.21a.75.75 0 011.06.02L10 11.168l3.71-3.938a.75.75 0 111.08 1.04l-4.25 4.5a.75.75 0 01-1.08 0l-4.25-4.5a.75.75 0 01.02-1.06z" clipRule="evenodd" />
-              </svg>
-            </div>
-          )}
-
-          {/* Secondary Dropdown: Months */}
-          {showMonthDropdown && (
-            <div className="relative flex-1 animate-in slide-in-from-right-2 duration-200">
-              <select
-                value={secondaryValue || ''}
-                onChange={(e) => onSecondaryValueChange(e.target.value)}
-                className="
-                  w-full appearance-none
-                  px-3 py-2.5 pr-8
-                  text-sm font-medium text-gray-700
-                  bg-gray-100/80 border border-transparent
-                  dark:bg-slate-800/80 dark:border-transparent dark:text-slate-200
-                  rounded-xl
-                  cursor-pointer
-                  hover:bg-gray-200/80 dark:hover:bg-slate-700/80
-                  focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:bg-white dark:focus:bg-slate-800
-                  transition-colors
-                "
-              >
-                <option value="">- pilih bulan -</option>
-                {monthGroups.map((month) => (
-                  <option key={month.monthKey} value={month.monthKey}>
-                    {month.monthName} ({month.availableSeat}/{month.totalSeat})
-                  </option>
-                ))}
-              </select>
-              <svg 
-                xmlns="http://www.w3.org/2000/svg" 
-                viewBox="0 0 20 20" 
-                fill="currentColor" 
-                className="w-4 h-4 text-gray-400 absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none"
-              >
-                <path fillRule="evenodd" d="M5.23 7.21a.75.75 0 011.06.02L10 11.168l3.71-3.938a.75.75 0 111.08 1.04l-4.25 4.5a.75.75 0 01-1.08 0l-4.25-4.5a.75.75 0 01.02-1.06z" clipRule="evenodd" />
-              </svg>
-            </div>
-          )}
+          {/* Landing City */}
+          <div className="relative flex-1 min-w-0">
+            <select
+              value={landingValue}
+              onChange={(e) => handleLandingChange(e.target.value)}
+              className="
+                w-full appearance-none
+                px-3 py-2.5 pr-8
+                text-sm font-medium text-gray-700
+                bg-gray-100/80 border border-transparent
+                dark:bg-slate-800/80 dark:border-transparent dark:text-slate-200
+                rounded-xl
+                cursor-pointer
+                hover:bg-gray-200/80 dark:hover:bg-slate-700/80
+                focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:bg-white dark:focus:bg-slate-800
+                transition-colors
+              "
+            >
+              <option value="">Semua Landing</option>
+              {landingCities.map((city) => (
+                <option key={city.code} value={city.code}>
+                  {city.name}
+                </option>
+              ))}
+              {landingValue === MULTIPLE_VALUE && (
+                <option value={MULTIPLE_VALUE} disabled>
+                  {landings.map(getCityName).join(' / ')}
+                </option>
+              )}
+            </select>
+            <svg 
+              xmlns="http://www.w3.org/2000/svg" 
+              viewBox="0 0 20 20" 
+              fill="currentColor" 
+              className="w-4 h-4 text-gray-400 absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none"
+            >
+              <path fillRule="evenodd" d="M5.23 7.21a.75.75 0 011.06.02L10 11.168l3.71-3.938a.75.75 0 111.08 1.04l-4.25 4.5a.75.75 0 01-1.08 0l-4.25-4.5a.75.75 0 01.02-1.06z" clipRule="evenodd" />
+            </svg>
+          </div>
+
+          {/* Departure Month */}
+          <div className="relative flex-1 min-w-0">
+            <select
+              value={monthValue}
+              onChange={(e) => handleMonthChange(e.target.value)}
+              className="
+                w-full appearance-none
+                px-3 py-2.5 pr-8
+                text-sm font-medium text-gray-700
+                bg-gray-100/80 border border-transparent
+                dark:bg-slate-800/80 dark:border-transparent dark:text-slate-200
+                rounded-xl
+                cursor-pointer
+                hover:bg-gray-200/80 dark:hover:bg-slate-700/80
+                focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:bg-white dark:focus:bg-slate-800
+                transition-colors
+              "
+            >
+              <option value="">Semua Bulan</option>
+              {monthGroups.map((month) => (
+                <option key={month.monthKey} value={month.monthKey}>
+                  {month.monthName}{month.monthNameHijri ? ` · ${month.monthNameHijri}` : ''} ({month.availableSeat}/{month.totalSeat})
+                </option>
+              ))}
+              {monthValue === MULTIPLE_VALUE && (
+                <option value={MULTIPLE_VALUE} disabled>
+                  {formatMonthRange(months)}
+                </option>
+              )}
+            </select>
+            <svg 
+              xmlns="http://www.w3.org/2000/svg" 
+              viewBox="0 0 20 20" 
+              fill="currentColor" 
+              className="w-4 h-4 text-gray-400 absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none"
+            >
+              <path fillRule="evenodd" d="M5.23 7.21a.75.75 0 011.06.02L10 11.168l3.71-3.938a.75.75 0 111.08 1.04l-4.25 4.5a.75.75 0 01-1.08 0l-4.25-4.5a.75.75 0 01.02-1.06z" clipRule="evenodd" />
+            </svg>
+          </div>
         </div>
 
         {/* ============================================ */}
@@ -519,6 +558,35 @@ export function FilterHeader({
             {/* Body Form */}
             <div className="p-6 space-y-5">
 
+              {/* INPUT: FOTO (opsional) */}
+              <div className="flex items-center gap-4">
+                <img
+                  src={agentProfile.photo || getAgentAvatarFallback(agentProfile.name || 'Agent')}
+                  alt="Foto agent"
+                  className="w-14 h-14 flex-shrink-0 rounded-full object-cover border-2 border-white shadow-md ring-1 ring-gray-200"
+                />
+                <div className="flex flex-col gap-1.5 min-w-0">
+                  <span className="text-xs font-bold text-gray-500 uppercase tracking-wide">Foto (opsional)</span>
+                  <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-100 hover:bg-gray-200 text-xs font-semibold text-gray-700 cursor-pointer transition-colors">
+                      <Camera className="w-4 h-4" />
+                      {agentProfile.photo ? 'Ganti' : 'Pilih Foto'}
+                      <input type="file" accept="image/*" className="hidden" onChange={handlePhotoChange} />
+                    </label>
+                    {agentProfile.photo && (
+                      <button
+                        type="button"
+                        onClick={() => setAgentProfile(profile => ({ ...profile, photo: undefined }))}
+                        className="px-3 py-1.5 rounded-lg text-xs font-semibold text-red-600 hover:bg-red-50 transition-colors"
+                      >
+                        Hapus
+                      </button>
+                    )}
+                  </div>
+                  {photoError && <span className="text-[11px] text-red-500">{photoError}</span>}
+                </div>
+              </div>
+
               {/* INPUT: NAMA */}
               <div className="space-y-1.5">
                 <label className="text-xs font-bold text-gray-500 uppercase tracking-wide">
@@ -595,6 +663,50 @@ export function FilterHeader({
                 </div>
               </div>
 
+              {/* PILIHAN: FORMAT PESAN WHATSAPP */}
+              <div className="space-y-1.5">
+                <label className="text-xs font-bold text-gray-500 uppercase tracking-wide">
+                  Format Pesan WhatsApp
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {SHARE_FORMAT_OPTIONS.map(option => {
+                    const isActive = !agentProfile.shareTemplate && (agentProfile.shareFormat ?? DEFAULT_SHARE_FORMAT) === option.value;
+                    return (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setAgentProfile({ ...agentProfile, shareFormat: option.value, shareTemplate: undefined })}
+                        className={`px-3 py-2 rounded-xl border text-left transition-all
+                          ${isActive
+                            ? 'border-red-500 bg-red-50 ring-2 ring-red-500/10'
+                            : 'border-gray-200 bg-gray-50 hover:bg-white'
+                          }`}
+                      >
+                        <span className={`block text-sm font-bold ${isActive ? 'text-red-600' : 'text-gray-800'}`}>{option.label}</span>
+                        <span className="block text-[11px] text-gray-500 leading-tight">{option.description}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setShowTemplateEditor(true)}
+                  className={`w-full flex items-center justify-between px-3 py-2 rounded-xl border text-left transition-all
+                    ${agentProfile.shareTemplate
+                      ? 'border-red-500 bg-red-50 ring-2 ring-red-500/10'
+                      : 'border-gray-200 bg-gray-50 hover:bg-white'
+                    }`}
+                >
+                  <span>
+                    <span className={`block text-sm font-bold ${agentProfile.shareTemplate ? 'text-red-600' : 'text-gray-800'}`}>
+                      {agentProfile.shareTemplate ? 'Template Kustom' : 'Atur Template Sendiri'}
+                    </span>
+                    <span className="block text-[11px] text-gray-500 leading-tight">Urutan, bagian & ajakan bisa diubah</span>
+                  </span>
+                  <PencilLine className="w-4 h-4 text-gray-400 shrink-0" />
+                </button>
+              </div>
+
             </div>
 
 
@@ -625,6 +737,18 @@ export function FilterHeader({
         document.body
       )}
 
+      {/* --- SHARE TEMPLATE EDITOR (opened from the profile modal) --- */}
+      <ShareTemplateEditor
+        isOpen={!isAgentMode && showTemplateEditor}
+        onClose={() => setShowTemplateEditor(false)}
+        template={agentProfile.shareTemplate}
+        format={agentProfile.shareFormat ?? DEFAULT_SHARE_FORMAT}
+        samplePackage={packages[0] ?? null}
+        year={year}
+        agent={toLocalAgent(agentProfile)}
+        onSave={(shareTemplate, shareFormat) => setAgentProfile(profile => ({ ...profile, shareTemplate, shareFormat }))}
+      />
+
       {/* --- TOAST NOTIFICATION (LIQUID GLASS 1-LINE) --- */}
       {showSuccess && createPortal(
         <div 
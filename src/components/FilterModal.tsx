@@ -1,59 +1,65 @@
 'use client';
 
-import { X, TicketPercent, Siren, Banknote, HeartHandshake } from 'lucide-react';
+import {
+  X,
+  TicketPercent,
+  Siren,
+  Banknote,
+  HeartHandshake,
+  Moon,
+  Sparkles,
+  PartyPopper,
+  School,
+  CalendarClock,
+  CalendarCheck,
+} from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useMemo } from 'react';
+import type { RoomType, UmrohPackage } from '@/types';
+import { groupByMonth } from '@/utils/filter-logic';
+import { ROOM_TYPE_LABELS, STARTING_PRICE_ROOM_TYPES, getPriceBounds } from '@/utils/pricing';
+import { SEASON_LABELS, type SeasonType } from '@/utils/season';
+import { formatDistance } from '@/utils/distance';
+import { HARAM_CITY_KEYS, type HaramCityKey } from '@/services/data-service';
+import {
+  DEFAULT_FILTER_SPEC,
+  HARAM_CITY_LABELS,
+  countFilterCriteria,
+  isQuickFilterActive,
+  setHotelCriteria,
+  toggleQuickFilter,
+  type FilterSpec,
+  type QuickFilterType,
+  type TimeRange,
+} from '@/utils/filter-spec';
+import { PriceRangeSlider } from './PriceRangeSlider';
 
 // ============================================
 // Types
 // ============================================
 
-export type QuickFilterType = 
-  | 'promo' 
-  | 'urgent' 
-  | 'termurah' 
-  | 'rahmah';
-
-// ============================================
-// Time Filter Types
-// ============================================
-
-export type TimeRange = '00-06' | '06-12' | '12-18' | '18-24';
-
-interface TimeRangeOption {
-  value: TimeRange;
-  label: string;
-}
-
-const TIME_RANGES: TimeRangeOption[] = [
-  { value: '00-06', label: '00:00 - 06:00' },
-  { value: '06-12', label: '06:00 - 12:00' },
-  { value: '12-18', label: '12:00 - 18:00' },
-  { value: '18-24', label: '18:00 - 24:00' },
-];
-
 export interface FilterModalProps {
   isOpen: boolean;
   onClose: () => void;
-  selectedFilter: QuickFilterType | null;
-  onSelectFilter: (filter: QuickFilterType | null) => void;
-  // New Time Filters
-  departureRanges: TimeRange[];
-  onDepartureRangeChange: (ranges: TimeRange[]) => void;
-  returnRanges: TimeRange[];
-  onReturnRangeChange: (ranges: TimeRange[]) => void;
+  /** Loaded packages (airline, tier and month options) */
+  packages: UmrohPackage[];
+  spec: FilterSpec;
+  onSpecChange: (spec: FilterSpec) => void;
 }
 
 // ============================================
 // Filter Configuration (Reused)
 // ============================================
 
-const QUICK_FILTERS: Array<{
+interface QuickFilterOption {
   id: QuickFilterType;
   label: string;
   description: string;
   icon: React.ReactNode;
   colorClass: string;
-}> = [
+}
+
+const QUICK_FILTERS: QuickFilterOption[] = [
   { 
     id: 'promo', 
     label: 'Promo Spesial', 
@@ -84,6 +90,54 @@ const QUICK_FILTERS: Array<{
   },
 ];
 
+/** Season filters (Hijri calendar & holidays), labels from utils/season */
+const SEASON_FILTER_STYLES: Record<SeasonType, { icon: React.ReactNode; colorClass: string }> = {
+  'ramadhan': { icon: <Moon size={20} />, colorClass: 'text-indigo-600 bg-indigo-50 border-indigo-200' },
+  'itikaf': { icon: <Sparkles size={20} />, colorClass: 'text-violet-600 bg-violet-50 border-violet-200' },
+  'syawal': { icon: <PartyPopper size={20} />, colorClass: 'text-teal-600 bg-teal-50 border-teal-200' },
+  'libur-sekolah': { icon: <School size={20} />, colorClass: 'text-sky-600 bg-sky-50 border-sky-200' },
+  'pra-haji': { icon: <CalendarClock size={20} />, colorClass: 'text-amber-600 bg-amber-50 border-amber-200' },
+  'pasca-haji': { icon: <CalendarCheck size={20} />, colorClass: 'text-lime-700 bg-lime-50 border-lime-200' },
+};
+
+const TIME_RANGE_OPTIONS: { value: TimeRange; label: string }[] = [
+  { value: '00-06', label: '00:00 - 06:00' },
+  { value: '06-12', label: '06:00 - 12:00' },
+  { value: '12-18', label: '12:00 - 18:00' },
+  { value: '18-24', label: '18:00 - 24:00' },
+];
+
+/** Budget slider step (Rp 0.5 Jt) */
+const PRICE_STEP = 500000;
+
+/** Room type the budget applies to; "Harga Mulai" is the tier's cheapest room */
+const BUDGET_ROOM_OPTIONS: { value: RoomType | null; label: string }[] = [
+  { value: null, label: 'Harga Mulai' },
+  ...STARTING_PRICE_ROOM_TYPES.map(roomType => ({ value: roomType, label: ROOM_TYPE_LABELS[roomType] })),
+];
+
+const STAR_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Semua' },
+  { value: 3, label: '★3+' },
+  { value: 4, label: '★4+' },
+  { value: 5, label: '★5' },
+];
+
+/** Walking distance presets in meters */
+const DISTANCE_OPTIONS: (number | null)[] = [null, 200, 500, 1000];
+
+const MOSQUE_NAMES: Record<HaramCityKey, string> = {
+  mekkah: 'Masjidil Haram',
+  madinah: 'Masjid Nabawi',
+};
+
+const SEASON_FILTERS: QuickFilterOption[] = (Object.keys(SEASON_FILTER_STYLES) as SeasonType[]).map(id => ({
+  id,
+  label: SEASON_LABELS[id].label,
+  description: SEASON_LABELS[id].description,
+  ...SEASON_FILTER_STYLES[id],
+}));
+
 // ============================================
 // Component
 // ============================================
@@ -91,32 +145,96 @@ const QUICK_FILTERS: Array<{
 export function FilterModal({ 
   isOpen, 
   onClose, 
-  selectedFilter, 
-  onSelectFilter,
-  departureRanges,
-  onDepartureRangeChange,
-  returnRanges,
-  onReturnRangeChange
+  packages,
+  spec,
+  onSpecChange,
 }: FilterModalProps) {
-  
-  const handleSelectQuickFilter = (id: QuickFilterType) => {
-    if (selectedFilter === id) {
-      onSelectFilter(null); // Toggle off
-    } else {
-      onSelectFilter(id);
-    }
+
+  // Options from the loaded year
+  const airlines = useMemo(
+    () => Array.from(new Set(packages.map(pkg => pkg.maskapai.toUpperCase()).filter(Boolean))).sort(),
+    [packages]
+  );
+  const tiers = useMemo(
+    () => Array.from(new Set(packages.flatMap(pkg => Object.keys(pkg.priceMatrix)))),
+    [packages]
+  );
+  const monthGroups = useMemo(() => groupByMonth(packages), [packages]);
+
+  // Budget slider bounds from the live prices, rounded out to whole steps
+  const priceBounds = useMemo(() => {
+    const bounds = getPriceBounds(packages, spec.priceRoomType);
+    if (!bounds) return null;
+    return {
+      min: Math.floor(bounds.min / PRICE_STEP) * PRICE_STEP,
+      max: Math.ceil(bounds.max / PRICE_STEP) * PRICE_STEP,
+    };
+  }, [packages, spec.priceRoomType]);
+
+  const update = (changes: Partial<FilterSpec>) => onSpecChange({ ...spec, ...changes });
+
+  const toggleValue = <T,>(values: T[], value: T): T[] =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const parseDays = (value: string): number | null => {
+    const days = parseInt(value, 10);
+    return Number.isFinite(days) && days > 0 ? days : null;
   };
 
-  const toggleRange = (range: TimeRange, currentRanges: TimeRange[], setter: (ranges: TimeRange[]) => void) => {
-    if (currentRanges.includes(range)) {
-      setter(currentRanges.filter(r => r !== range));
-    } else {
-      setter([...currentRanges, range]);
-    }
+  const renderChip = (key: string, label: string, isActive: boolean, onClick: () => void) => (
+    <button
+      key={key}
+      onClick={onClick}
+      className={`
+        px-3 py-1.5 rounded-full text-xs font-medium border transition-colors
+        ${isActive 
+          ? 'bg-emerald-100 border-emerald-500 text-emerald-700' 
+          : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+        }
+      `}
+    >
+      {label}
+    </button>
+  );
+
+  const renderQuickFilter = (filter: QuickFilterOption) => {
+    const isSelected = isQuickFilterActive(spec, filter.id);
+    return (
+      <button
+        key={filter.id}
+        onClick={() => onSpecChange(toggleQuickFilter(spec, filter.id))}
+        className={`
+          w-full flex items-center gap-4 p-3 rounded-xl border-2 transition-all active:scale-98
+          ${isSelected
+            ? 'border-emerald-500 bg-emerald-50'
+            : 'border-transparent bg-gray-50 hover:bg-gray-100'
+          }
+        `}
+      >
+        <div className={`w-10 h-10 rounded-full flex items-center justify-center ${filter.colorClass}`}>
+          {filter.icon}
+        </div>
+        <div className="text-left">
+          <p className={`font-bold text-sm ${isSelected ? 'text-emerald-900' : 'text-gray-900'}`}>
+            {filter.label}
+          </p>
+          <p className="text-xs text-gray-500">{filter.description}</p>
+        </div>
+        {isSelected && (
+          <div className="ml-auto text-emerald-600">
+             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+              <path fillRule="evenodd" d="M16.704 4.153a.75.75 0 01.143 1.052l-8 10.5a.75.75 0 01-1.127.075l-4.5-4.5a.75.75 0 011.06-1.06l3.894 3.893 7.48-9.817a.75.75 0 011.05-.143z" clipRule="evenodd" />
+            </svg>
+          </div>
+        )}
+      </button>
+    );
   };
 
-  // Helper to check if any filter is active
-  const isAnyFilterActive = selectedFilter || departureRanges.length > 0 || returnRanges.length > 0;
+  const selectClass = `
+    w-full px-3 py-2 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-xl
+    focus:outline-none focus:ring-2 focus:ring-emerald-500/50
+  `;
 
   return (
     <AnimatePresence>
@@ -154,7 +272,7 @@ export function FilterModal({
                <div className="w-12 h-1.5 bg-gray-200 rounded-full mx-auto mb-4" />
 
               <div className="flex justify-between items-center">
-                <h3 className="text-lg font-bold text-gray-900">Filter Cepat</h3>
+                <h3 className="text-lg font-bold text-gray-900">Filter Paket</h3>
                 <button 
                   onClick={onClose}
                   className="p-2 bg-gray-100 rounded-full text-gray-500 hover:bg-gray-200 transition-colors"
@@ -171,89 +289,191 @@ export function FilterModal({
               <div>
                 <h4 className="text-sm font-semibold text-gray-500 mb-3 uppercase tracking-wider">Kategori Paket</h4>
                 <div className="space-y-3">
-                  {QUICK_FILTERS.map((filter) => {
-                    const isSelected = selectedFilter === filter.id;
+                  {QUICK_FILTERS.map(renderQuickFilter)}
+                </div>
+              </div>
+
+              {/* Section 2: Seasons */}
+              <div>
+                <h4 className="text-sm font-semibold text-gray-500 mb-3 uppercase tracking-wider">Musim Keberangkatan</h4>
+                <div className="space-y-3">
+                  {SEASON_FILTERS.map(renderQuickFilter)}
+                </div>
+              </div>
+
+              {/* Section 3: Budget */}
+              {priceBounds && (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-500 mb-3 uppercase tracking-wider">Budget per Orang</h4>
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {BUDGET_ROOM_OPTIONS.map(option => renderChip(
+                      String(option.value),
+                      option.label,
+                      spec.priceRoomType === option.value,
+                      // A range set for one room type doesn't fit another's prices
+                      () => update({ priceRoomType: option.value, price: DEFAULT_FILTER_SPEC.price })
+                    ))}
+                  </div>
+                  <PriceRangeSlider
+                    min={priceBounds.min}
+                    max={priceBounds.max}
+                    step={PRICE_STEP}
+                    value={spec.price}
+                    onChange={(price) => update({ price })}
+                  />
+                </div>
+              )}
+
+              {/* Section 4: Airlines */}
+              {airlines.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-500 mb-3 uppercase tracking-wider">Maskapai</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {airlines.map(airline => renderChip(
+                      airline,
+                      airline,
+                      spec.airlines.includes(airline),
+                      () => update({ airlines: toggleValue(spec.airlines, airline) })
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Section 5: Month Range */}
+              <div>
+                <h4 className="text-sm font-semibold text-gray-500 mb-3 uppercase tracking-wider">Rentang Bulan</h4>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={spec.months.from || ''}
+                    onChange={(e) => update({ months: { ...spec.months, from: e.target.value || null } })}
+                    className={selectClass}
+                    aria-label="Dari bulan"
+                  >
+                    <option value="">Dari awal</option>
+                    {monthGroups.map(month => (
+                      <option key={month.monthKey} value={month.monthKey}>
+                        {month.monthName}{month.monthNameHijri ? ` · ${month.monthNameHijri}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-xs text-gray-400">–</span>
+                  <select
+                    value={spec.months.to || ''}
+                    onChange={(e) => update({ months: { ...spec.months, to: e.target.value || null } })}
+                    className={selectClass}
+                    aria-label="Sampai bulan"
+                  >
+                    <option value="">Sampai akhir</option>
+                    {monthGroups.map(month => (
+                      <option key={month.monthKey} value={month.monthKey}>
+                        {month.monthName}{month.monthNameHijri ? ` · ${month.monthNameHijri}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Section 6: Duration */}
+              <div>
+                <h4 className="text-sm font-semibold text-gray-500 mb-3 uppercase tracking-wider">Durasi (Hari)</h4>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    value={spec.duration.min ?? ''}
+                    onChange={(e) => update({ duration: { ...spec.duration, min: parseDays(e.target.value) } })}
+                    placeholder="Min"
+                    className={selectClass}
+                    aria-label="Durasi minimal"
+                  />
+                  <span className="text-xs text-gray-400">–</span>
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    value={spec.duration.max ?? ''}
+                    onChange={(e) => update({ duration: { ...spec.duration, max: parseDays(e.target.value) } })}
+                    placeholder="Maks"
+                    className={selectClass}
+                    aria-label="Durasi maksimal"
+                  />
+                </div>
+              </div>
+
+              {/* Section 7: Hotel Tier, Stars & Distance */}
+              {tiers.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-500 mb-3 uppercase tracking-wider">Paket Hotel</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {tiers.map(tier => renderChip(
+                      tier,
+                      tier,
+                      spec.tiers.includes(tier),
+                      () => update({ tiers: toggleValue(spec.tiers, tier) })
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-sm font-semibold text-gray-500 mb-3 uppercase tracking-wider">Hotel Mekkah & Madinah</h4>
+                <div className="space-y-4">
+                  {HARAM_CITY_KEYS.map(cityKey => {
+                    const criteria = spec.hotels[cityKey];
+                    // Keep a distance from a shared link selectable when it isn't a preset
+                    const distances = DISTANCE_OPTIONS.includes(criteria.maxDistance)
+                      ? DISTANCE_OPTIONS
+                      : [...DISTANCE_OPTIONS, criteria.maxDistance];
                     return (
-                      <button
-                        key={filter.id}
-                        onClick={() => handleSelectQuickFilter(filter.id)}
-                        className={`
-                          w-full flex items-center gap-4 p-3 rounded-xl border-2 transition-all active:scale-98
-                          ${isSelected
-                            ? 'border-emerald-500 bg-emerald-50'
-                            : 'border-transparent bg-gray-50 hover:bg-gray-100'
-                          }
-                        `}
-                      >
-                        <div className={`w-10 h-10 rounded-full flex items-center justify-center ${filter.colorClass}`}>
-                          {filter.icon}
+                      <div key={cityKey}>
+                        <p className="text-xs font-semibold text-gray-700 mb-2">{HARAM_CITY_LABELS[cityKey]}</p>
+                        <div className="flex flex-wrap gap-2 mb-2">
+                          {STAR_OPTIONS.map(option => renderChip(
+                            String(option.value),
+                            option.label,
+                            criteria.minStars === option.value,
+                            () => onSpecChange(setHotelCriteria(spec, cityKey, { minStars: option.value }))
+                          ))}
                         </div>
-                        <div className="text-left">
-                          <p className={`font-bold text-sm ${isSelected ? 'text-emerald-900' : 'text-gray-900'}`}>
-                            {filter.label}
-                          </p>
-                          <p className="text-xs text-gray-500">{filter.description}</p>
+                        <p className="text-[11px] text-gray-400 mb-1.5">Jarak jalan kaki ke {MOSQUE_NAMES[cityKey]}</p>
+                        <div className="flex flex-wrap gap-2">
+                          {distances.map(meters => renderChip(
+                            String(meters),
+                            meters === null ? 'Semua' : `≤ ${formatDistance(meters)}`,
+                            criteria.maxDistance === meters,
+                            () => onSpecChange(setHotelCriteria(spec, cityKey, { maxDistance: meters }))
+                          ))}
                         </div>
-                        {isSelected && (
-                          <div className="ml-auto text-emerald-600">
-                             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
-                              <path fillRule="evenodd" d="M16.704 4.153a.75.75 0 01.143 1.052l-8 10.5a.75.75 0 01-1.127.075l-4.5-4.5a.75.75 0 011.06-1.06l3.894 3.893 7.48-9.817a.75.75 0 011.05-.143z" clipRule="evenodd" />
-                            </svg>
-                          </div>
-                        )}
-                      </button>
+                      </div>
                     );
                   })}
                 </div>
               </div>
 
-              {/* Section 2: Departure Time */}
+              {/* Section 8: Departure Time */}
               <div>
                 <h4 className="text-sm font-semibold text-gray-500 mb-3 uppercase tracking-wider">Waktu Keberangkatan</h4>
                 <div className="flex flex-wrap gap-2">
-                  {TIME_RANGES.map((range) => {
-                    const isActive = departureRanges.includes(range.value);
-                    return (
-                      <button
-                        key={range.value}
-                        onClick={() => toggleRange(range.value, departureRanges, onDepartureRangeChange)}
-                        className={`
-                          px-3 py-1.5 rounded-full text-xs font-medium border transition-colors
-                          ${isActive 
-                            ? 'bg-emerald-100 border-emerald-500 text-emerald-700' 
-                            : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
-                          }
-                        `}
-                      >
-                        {range.label}
-                      </button>
-                    )
-                  })}
+                  {TIME_RANGE_OPTIONS.map(range => renderChip(
+                    range.value,
+                    range.label,
+                    spec.departureTimes.includes(range.value),
+                    () => update({ departureTimes: toggleValue(spec.departureTimes, range.value) })
+                  ))}
                 </div>
               </div>
 
-              {/* Section 3: Return Time */}
+              {/* Section 9: Return Time */}
               <div>
                 <h4 className="text-sm font-semibold text-gray-500 mb-3 uppercase tracking-wider">Waktu Kepulangan</h4>
                 <div className="flex flex-wrap gap-2">
-                  {TIME_RANGES.map((range) => {
-                    const isActive = returnRanges.includes(range.value);
-                    return (
-                      <button
-                        key={range.value}
-                        onClick={() => toggleRange(range.value, returnRanges, onReturnRangeChange)}
-                        className={`
-                          px-3 py-1.5 rounded-full text-xs font-medium border transition-colors
-                          ${isActive 
-                            ? 'bg-emerald-100 border-emerald-500 text-emerald-700' 
-                            : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
-                          }
-                        `}
-                      >
-                        {range.label}
-                      </button>
-                    )
-                  })}
+                  {TIME_RANGE_OPTIONS.map(range => renderChip(
+                    range.value,
+                    range.label,
+                    spec.returnTimes.includes(range.value),
+                    () => update({ returnTimes: toggleValue(spec.returnTimes, range.value) })
+                  ))}
                 </div>
               </div>
 
@@ -268,13 +488,9 @@ export function FilterModal({
                 >
                   Terapkan Filter
                 </button>
-                {isAnyFilterActive && (
+                {countFilterCriteria(spec) > 0 && (
                   <button
-                    onClick={() => {
-                      onSelectFilter(null);
-                      onDepartureRangeChange([]);
-                      onReturnRangeChange([]);
-                    }}
+                    onClick={() => onSpecChange({ ...DEFAULT_FILTER_SPEC, search: spec.search })}
                     className="px-4 py-3 text-sm font-bold text-red-600 bg-red-50 hover:bg-red-100 rounded-xl transition-colors"
                   >
                     Reset
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import type { AgentData } from '../data/agents';
+import { getAgentAvatarFallback, type AgentData } from '../data/agents';
 
 interface FloatingAgentBarProps {
   agent: AgentData;
@@ -58,11 +58,11 @@ export default function FloatingAgentBar({ agent }: FloatingAgentBarProps) {
         {/* Agent Photo */}
         <div className="w-10 h-10 flex-shrink-0">
           <img
-            src={agent.photo}
+            src={agent.photo || getAgentAvatarFallback(agent.name)}
             alt={agent.name}
             className="w-full h-full object-cover rounded-full border-2 border-white dark:border-slate-700 shadow-sm"
             onError={(e) => {
-              (e.target as HTMLImageElement).src = `https://ui-avatars.com/api/?name=${encodeURIComponent(agent.name)}&background=random`;
+              (e.target as HTMLImageElement).src = getAgentAvatarFallback(agent.name);
             }}
           />
         </div>
@@ -2,14 +2,37 @@
 
 import { useState, useRef, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { PlaneTakeoff, PlaneLanding, Building2, Camera, Loader2, X, Share2 } from 'lucide-react';
+import { PlaneTakeoff, PlaneLanding, Building2, Camera, Loader2, X, Share2, Scale, CalendarPlus } from 'lucide-react';
 import html2canvas from 'html2canvas';
-import { UmrohPackage, RoomPricing } from '@/types';
+import { UmrohPackage, type HotelStay } from '@/types';
+import { findStay, getExtraStays } from '@/services';
+import {
+  getStartingPrice,
+  getTierStartingPrice,
+  formatPriceMillions,
+  buildShareMessage,
+  buildPackageLink,
+  buildPackageCalendar,
+  formatHijriDate,
+  getPackageSeasons,
+  SEASON_LABELS,
+  type SeasonType,
+  type AgentIdentity,
+} from '@/utils';
 import { BrochureModal } from './BrochureModal';
 import { ItineraryModal } from './ItineraryModal';
-import type { AgentData } from '@/data/agents';
 import AgentProfile from './AgentProfile';
 
+/** Season badge colors */
+const SEASON_BADGE_CLASSES: Record<SeasonType, string> = {
+  'ramadhan': 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300',
+  'itikaf': 'bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300',
+  'syawal': 'bg-teal-100 text-teal-700 dark:bg-teal-900/40 dark:text-teal-300',
+  'libur-sekolah': 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300',
+  'pra-haji': 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  'pasca-haji': 'bg-lime-100 text-lime-700 dark:bg-lime-900/40 dark:text-lime-300',
+};
+
 interface PackageCardProps {
   package: UmrohPackage;
   /** Control expansion from parent */
@@ -18,8 +41,21 @@ interface PackageCardProps {
   onToggle?: () => void;
   /** Callback when expand state changes (for backward compatibility or extra monitoring) */
   onExpandChange?: (expanded: boolean) => void;
-  /** Agent data from URL slug (passed from parent to avoid per-card detection) */
-  agent?: AgentData | null;
+  /** Active agent, link or local profile (passed from parent to avoid per-card detection) */
+  agent?: AgentIdentity | null;
+  /** Hijri year of the list (for the package link in share messages) */
+  year?: string;
+  /** Whether this package is pinned for comparison */
+  isPinned?: boolean;
+  /** Pin/unpin this package for comparison (hides the pin button when absent) */
+  onTogglePin?: () => void;
+  /** Disable pinning (comparison is full) */
+  isPinDisabled?: boolean;
+  /**
+   * Tiers passing the list's tier filters (budget, hotel stars), highlighted
+   * on the card; the cheapest of them opens first. Omit when none are set.
+   */
+  matchingTiers?: string[];
 }
 
 const LANDING_AIRPORT_MAP: Record<string, string> = {
@@ -58,6 +94,11 @@ export function PackageCard({
   onToggle,
   onExpandChange,
   agent: currentAgent = null,
+  year,
+  isPinned = false,
+  onTogglePin,
+  isPinDisabled = false,
+  matchingTiers,
 }: PackageCardProps) {
   const contentRef = useRef<HTMLDivElement>(null);
   const [contentHeight, setContentHeight] = useState(0);
@@ -65,10 +106,11 @@ export function PackageCard({
   const [isItineraryOpen, setIsItineraryOpen] = useState(false);
   const [isCapturing, setIsCapturing] = useState(false);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [selectedTier, setSelectedTier] = useState<string | null>(null);
   const cardRef = useRef<HTMLDivElement>(null);
 
   // Calculate availability percentage
-  const availabilityPercentage = Math.round((pkg.seatSisa / pkg.seatTotal) * 100);
+  const availabilityPercentage = pkg.seatTotal > 0 ? Math.round((pkg.seatSisa / pkg.seatTotal) * 100) : 0;
   const isLowStock = availabilityPercentage <= 25;
   const isCritical = availabilityPercentage <= 10;
 
@@ -98,96 +140,52 @@ export function PackageCard({
   // ============================================
 
   /**
-   * Helper to find the cheapest tier and its minimum price
+   * Cheapest tier and its starting price (shared rule, see utils/pricing)
    */
-  const { cheapestTier, absoluteMinPrice } = useMemo(() => {
-    let minPrice = Infinity;
-    let minTier = Object.keys(pkg.harga)[0];
-
-    for (const [tier, tierPricing] of Object.entries(pkg.harga)) {
-      const prices = [
-        tierPricing.Quard, 
-        tierPricing.Triple, 
-        tierPricing.Double
-      ];
-      
-      for (const priceStr of prices) {
-        if (priceStr) {
-          const val = parseInt(priceStr, 10);
-          if (val > 0 && val < minPrice) {
-            minPrice = val;
-            minTier = tier;
-          }
-        }
-      }
-    }
-
-    return { 
-      cheapestTier: minTier, 
-      absoluteMinPrice: minPrice === Infinity ? null : minPrice 
-    };
-  }, [pkg.harga]);
-
-  // Use the pricing and hotel info from the cheapest tier
-  const pricing = pkg.harga[cheapestTier] as RoomPricing;
-  const hotelInfo = pkg.hotel[cheapestTier];
+  const startingPrice = useMemo(() => getStartingPrice(pkg), [pkg]);
+  const seasons = useMemo(() => getPackageSeasons(pkg), [pkg]);
+  const cheapestTier = startingPrice?.tier ?? Object.keys(pkg.harga)[0];
 
   /**
-   * Extract extra hotels (Turkey, Cairo, etc.)
+   * Tiers with their own starting price, for the tier selector
    */
-  const extraHotels = useMemo(() => {
-    if (!hotelInfo) return [];
-
-    const extras: Array<{ city: string; name: string; star: string }> = [];
-    
-    // Mapping keys to readable city labels
-    const potentialCities = [
-      { key: 'istanbul', label: 'Istanbul' },
-      { key: 'bursa', label: 'Bursa' },
-      { key: 'ankara', label: 'Ankara' },
-      { key: 'cappadocia', label: 'Cappadocia' },
-      { key: 'cairo', label: 'Cairo' },
-      { key: 'alexandria', label: 'Alexandria' },
-      { key: 'dubai', label: 'Dubai' },
-      { key: 'aqsha', label: 'Aqsha' },
-      { key: 'amman', label: 'Amman' },
-      { key: 'petra', label: 'Petra' },
-    ];
-
-    potentialCities.forEach(city => {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const info = hotelInfo as any;
-      const hotelName = info[`${city.key}_hotel`];
-      const hotelStar = info[`${city.key}_bintang`] || '0';
-
-      if (hotelName) {
-        extras.push({
-          city: city.label,
-          name: hotelName,
-          star: hotelStar
-        });
-      }
-    });
-
-    return extras;
-  }, [hotelInfo]);
-
-
+  const tierOptions = useMemo(() => {
+    return Object.keys(pkg.priceMatrix).map(tier => ({
+      tier,
+      price: getTierStartingPrice(pkg, tier)?.price ?? null,
+    }));
+  }, [pkg]);
+
+  // Cheapest tier within the list's filters (budget, stars), if any are set
+  const cheapestMatchingTier = useMemo(() => {
+    if (!matchingTiers?.length) return null;
+    return tierOptions
+      .filter(option => matchingTiers.includes(option.tier))
+      .reduce((best, option) =>
+        (option.price ?? Infinity) < (best.price ?? Infinity) ? option : best
+      ).tier;
+  }, [tierOptions, matchingTiers]);
+
+  // Chosen tier (falls back to the cheapest matching tier, then the cheapest tier)
+  const activeTier = selectedTier && pkg.priceMatrix[selectedTier]
+    ? selectedTier
+    : cheapestMatchingTier ?? cheapestTier;
+
+  // Use the pricing and hotel stays from the active tier
+  const pricing = pkg.priceMatrix[activeTier];
+  const stays = pkg.hotel[activeTier] || [];
+  const mekkahStay = findStay(stays, 'mekkah');
+  const madinahStay = findStay(stays, 'madinah');
 
   /**
-   * Format price to "X.Y Jt" for header
+   * Extra hotels (Turkey, Cairo, etc.) in itinerary order
    */
-  const formatHeaderPrice = (price: number | null): string => {
-    if (!price) return '-';
-    const millions = price / 1000000;
-    return parseFloat(millions.toFixed(1)).toString();
-  };
+  const extraHotels = useMemo(() => getExtraStays(stays), [stays]);
 
   // Format price for display in table
-  const formatRupiah = (price: string | undefined): string => {
+  const formatRupiah = (price: number | null | undefined): string => {
     if (!price) return '-';
-    const num = parseInt(price, 10);
-    return new Intl.NumberFormat('id-ID').format(num);
+    return new Intl.NumberFormat('id-ID').format(price);
   };
 
   // Update content height for animation
@@ -195,7 +193,12 @@ export function PackageCard({
     if (contentRef.current) {
       setContentHeight(contentRef.current.scrollHeight);
     }
-  }, [isExpanded, pkg]);
+  }, [isExpanded, pkg, activeTier]);
+
+  // Tier choice only lasts while the card stays expanded
+  useEffect(() => {
+    if (!isExpanded) setSelectedTier(null);
+  }, [isExpanded]);
 
   // Handle card click
   const handleCardClick = (e: React.MouseEvent) => {
@@ -208,87 +211,36 @@ export function PackageCard({
     onExpandChange?.(!isExpanded);
   };
 
-  // Helper to generate share message
-  const getShareMessage = () => {
-    // Format date with day name
-    const formatFullDate = (dateStr: string): string => {
-      const date = new Date(dateStr);
-      return date.toLocaleDateString('id-ID', {
-        weekday: 'long',
-        day: 'numeric',
-        month: 'long',
-        year: 'numeric',
-      });
-    };
-
-    // Build hotel list string
-    const buildHotelList = (): string => {
-      const hotels: string[] = [];
-      
-      // Madinah
-      if (hotelInfo?.madinah_hotel) {
-        const stars = parseInt(hotelInfo.madinah_bintang || '0');
-        hotels.push(`\`\`\`HOTEL MADINAH\`\`\`\n*${hotelInfo.madinah_hotel}* [ *${'★'.repeat(stars)}* ]`);
-      }
-      
-      // Mekkah
-      if (hotelInfo?.mekkah_hotel) {
-        const stars = parseInt(hotelInfo.mekkah_bintang || '0');
-        hotels.push(`\`\`\`HOTEL MEKKAH\`\`\`\n*${hotelInfo.mekkah_hotel}* [ *${'★'.repeat(stars)}* ]`);
-      }
-      
-      // Extra hotels (Turkey, Cairo, etc.)
-      extraHotels.forEach(hotel => {
-        const stars = parseInt(hotel.star || '0');
-        hotels.push(`\`\`\`HOTEL ${hotel.city.toUpperCase()}\`\`\`\n*${hotel.name}* [ *${'★'.repeat(stars)}* ]`);
-      });
-      
-      return hotels.join('\n\n');
-    };
-
-    // Build pricing string
-    const buildPricing = (): string => {
-      const lines: string[] = [];
-      if (pricing?.Double) lines.push(`\`\`\`Double\`\`\`   →   \`\`\`Rp ${formatRupiah(pricing.Double)}\`\`\``);
-      if (pricing?.Triple) lines.push(`\`\`\`Triple\`\`\`   →   \`\`\`Rp ${formatRupiah(pricing.Triple)}\`\`\``);
-      if (pricing?.Quard) lines.push(`\`\`\`Quad\`\`\`     →   \`\`\`Rp ${formatRupiah(pricing.Quard)}\`\`\``);
-      if (pricing?.Infant) lines.push(`\`\`\`Infant\`\`\`   →   \`\`\`Rp ${formatRupiah(pricing.Infant)}\`\`\``);
-      return lines.join('\n');
-    };
-
-    return `*ALHIJAZ INDOWISATA*
-_________________________
-*${pkg.maskapai || '-'}*, *${pkg.nama}*
-
-\`\`\`BERANGKAT\`\`\`
-*${formatFullDate(pkg.keberangkatan?.tgl || '')}*, *${pkg.keberangkatan?.jam || '-'}*
-*${pkg.keberangkatan?.kodePenerbangan || '-'}* — *${pkg.keberangkatan?.rute || '-'}*
-
-\`\`\`PULANG\`\`\`
-*${formatFullDate(pkg.kepulangan?.tgl || '')}*, *${pkg.kepulangan?.jam || '-'}*
-*${pkg.kepulangan?.kodePenerbangan || '-'}* — *${pkg.kepulangan?.rute || '-'}*
-
-\`\`\`MANASIK\`\`\`
-*${pkg.manasikTanggal ? formatFullDate(pkg.manasikTanggal) : '-'}*
-
-*[ DETAIL HOTEL ]*
-_________________________
-${buildHotelList()}
-
-\`\`\`BIAYA PAKET\`\`\`
-${buildPricing()}
-_________________________
-*GRATIS Biaya Perlengkapan, Handling & Asuransi*`;
-  };
+  // Deep link to this package (needs the list year)
+  const getPackageLink = () =>
+    year ? buildPackageLink(window.location.origin, currentAgent?.slug ?? '', year, pkg.jadwalId) : undefined;
 
   // Handle WhatsApp Share with formatted message
   const handleWhatsAppShare = (e: React.MouseEvent) => {
     e.stopPropagation();
-    const message = getShareMessage();
+    const message = buildShareMessage(pkg, {
+      tier: activeTier,
+      format: currentAgent?.shareFormat,
+      template: currentAgent?.shareTemplate,
+      agent: currentAgent,
+      packageLink: getPackageLink(),
+    });
     const encodedMessage = encodeURIComponent(message);
     window.open(`https://wa.me/?text=${encodedMessage}`, '_blank');
   };
 
+  // Download manasik + flights as an .ics file
+  const handleAddToCalendar = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const calendar = buildPackageCalendar(pkg, { agent: currentAgent, packageLink: getPackageLink() });
+    const url = URL.createObjectURL(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.download = `umroh-${pkg.jadwalId.toLowerCase()}.ics`;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
   // Handle Screenshot & Share (Smart Styling Strategy)
   const handleScreenshot = async (e?: React.MouseEvent) => {
     e?.stopPropagation();
@@ -444,67 +396,79 @@ _________________________
            });
            
            // E. INJECT AGENT FOOTER (Precision Fix)
-           const savedProfile = localStorage.getItem('agentProfile');
-           if (savedProfile) {
-             try {
-               const agentData = JSON.parse(savedProfile);
-               if (agentData.name || agentData.phone) {
-
-                 // 1. Footer Container
-                 const footer = doc.createElement('div');
-                 Object.assign(footer.style, {
-                   marginTop: '0',
-                   padding: '14px 20px',
-                   backgroundColor: '#F9FAFB',
-                   borderTop: '1px solid #E5E7EB',
-                   display: 'flex',
-                   justifyContent: 'space-between',
-                   alignItems: 'center',
-                   fontFamily: 'Arial, Helvetica, sans-serif',
-                 });
-
-                 // 2. Kolom Kiri: Nama & Website
-                 const leftCol = doc.createElement('div');
-                 leftCol.style.display = 'flex';
-                 leftCol.style.flexDirection = 'column';
-                 leftCol.style.justifyContent = 'center';
-
-                 const nameHtml = `<div style="font-weight: 700; font-size: 14px; color: #111827; margin-bottom: 3px; line-height: 1.2;">${agentData.name || ''}</div>`;
-                 const cleanWeb = agentData.website ? agentData.website.replace(/\s/g, '') : '';
-                 const webHtml = cleanWeb
-                   ? `<div style="font-size: 11px; color: #6B7280; font-weight: 400; line-height: 1.2; white-space: nowrap;">${cleanWeb}</div>`
-                   : '';
-                 leftCol.innerHTML = nameHtml + webHtml;
-
-                 // 3. Kolom Kanan: WhatsApp Badge (Uneven Padding Fix)
-                 const rightCol = doc.createElement('div');
-                 if (agentData.phone) {
-                   Object.assign(rightCol.style, {
-                     backgroundColor: '#DCFCE7',
-                     color: '#15803d',
-                     padding: '6px 14px 8px 14px',
-                     borderRadius: '100px',
-                     display: 'flex',
-                     alignItems: 'center',
-                     justifyContent: 'center',
-                     gap: '8px',
-                     lineHeight: '0',
-                   });
-
-                   const waIcon = `<svg width="15" height="15" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" style="display: block; flex-shrink: 0;"><path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.008-.57-.008-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L.057 24l6.305-1.654a11.882 11.882 0 005.683 1.448h.005c6.554 0 11.89-5.335 11.893-11.893a11.821 11.821 0 00-3.48-8.413z" fill="#15803d"/></svg>`;
-                   const waText = `<span style="font-family: Arial, sans-serif; font-weight: 700; font-size: 13px; line-height: 1; display: inline-block;">${agentData.phone}</span>`;
-                   rightCol.innerHTML = waIcon + waText;
-                 }
-
-                 footer.appendChild(leftCol);
-                 footer.appendChild(rightCol);
-                 clonedCard.appendChild(footer);
-
-                 clonedCard.style.borderBottomLeftRadius = '0';
-                 clonedCard.style.borderBottomRightRadius = '0';
-                 clonedCard.style.overflow = 'hidden';
-               }
-             } catch { /* ignore invalid JSON */ }
+           const agentData = currentAgent;
+           if (agentData) {
+
+             // 1. Footer Container
+             const footer = doc.createElement('div');
+             Object.assign(footer.style, {
+               marginTop: '0',
+               padding: '14px 20px',
+               backgroundColor: '#F9FAFB',
+               borderTop: '1px solid #E5E7EB',
+               display: 'flex',
+               justifyContent: 'space-between',
+               alignItems: 'center',
+               fontFamily: 'Arial, Helvetica, sans-serif',
+             });
+
+             // 2. Kolom Kiri: Nama & Website
+             const leftCol = doc.createElement('div');
+             leftCol.style.display = 'flex';
+             leftCol.style.flexDirection = 'column';
+             leftCol.style.justifyContent = 'center';
+
+             const nameHtml = `<div style="font-weight: 700; font-size: 14px; color: #111827; margin-bottom: 3px; line-height: 1.2;">${agentData.name || ''}</div>`;
+             const cleanWeb = agentData.website ? agentData.website.replace(/\s/g, '') : '';
+             const webHtml = cleanWeb
+               ? `<div style="font-size: 11px; color: #6B7280; font-weight: 400; line-height: 1.2; white-space: nowrap;">${cleanWeb}</div>`
+               : '';
+             leftCol.innerHTML = nameHtml + webHtml;
+
+             // Foto agent (opsional) di kiri nama
+             const identityCol = doc.createElement('div');
+             Object.assign(identityCol.style, { display: 'flex', alignItems: 'center', gap: '10px' });
+             if (agentData.photo) {
+               const photo = doc.createElement('img');
+               photo.src = agentData.photo;
+               Object.assign(photo.style, {
+                 width: '36px',
+                 height: '36px',
+                 borderRadius: '100px',
+                 objectFit: 'cover',
+                 border: '2px solid #FFFFFF',
+               });
+               identityCol.appendChild(photo);
+             }
+             identityCol.appendChild(leftCol);
+
+             // 3. Kolom Kanan: WhatsApp Badge (Uneven Padding Fix)
+             const rightCol = doc.createElement('div');
+             if (agentData.phone) {
+               Object.assign(rightCol.style, {
+                 backgroundColor: '#DCFCE7',
+                 color: '#15803d',
+                 padding: '6px 14px 8px 14px',
+                 borderRadius: '100px',
+                 display: 'flex',
+                 alignItems: 'center',
+                 justifyContent: 'center',
+                 gap: '8px',
+                 lineHeight: '0',
+               });
+
+               const waIcon = `<svg width="15" height="15" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" style="display: block; flex-shrink: 0;"><path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.008-.57-.008-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L.057 24l6.305-1.654a11.882 11.882 0 005.683 1.448h.005c6.554 0 11.89-5.335 11.893-11.893a11.821 11.821 0 00-3.48-8.413z" fill="#15803d"/></svg>`;
+               const waText = `<span style="font-family: Arial, sans-serif; font-weight: 700; font-size: 13px; line-height: 1; display: inline-block;">${agentData.phone}</span>`;
+               rightCol.innerHTML = waIcon + waText;
+             }
+
+             footer.appendChild(identityCol);
+             footer.appendChild(rightCol);
+             clonedCard.appendChild(footer);
+
+             clonedCard.style.borderBottomLeftRadius = '0';
+             clonedCard.style.borderBottomRightRadius = '0';
+             clonedCard.style.overflow = 'hidden';
            }
 
            // F. FINAL TOUCHES
@@ -577,7 +541,9 @@ _________________________
    */
   const SeatAndDateSection = ({ isFooter = false }: { isFooter?: boolean }) => {
     const takenSeats = pkg.seatTotal - pkg.seatSisa;
-    const percentage = Math.min(100, Math.max(0, Math.round((takenSeats / pkg.seatTotal) * 100)));
+    const percentage = pkg.seatTotal > 0
+      ? Math.min(100, Math.max(0, Math.round((takenSeats / pkg.seatTotal) * 100)))
+      : 100;
 
     const getStatusStyle = (pct: number) => {
       // Full (100%)
@@ -648,6 +614,11 @@ _________________________
             year: 'numeric'
           })}
         </span>
+        {formatHijriDate(pkg.keberangkatan.tgl, 'short') && (
+          <span className="block text-[10px] font-medium text-emerald-700 dark:text-emerald-400 whitespace-nowrap">
+            {formatHijriDate(pkg.keberangkatan.tgl, 'short')}
+          </span>
+        )}
       </div>
     </div>
   );
@@ -658,9 +629,10 @@ _________________________
     <div
       ref={cardRef}
       data-card-ref="true"
+      data-jadwal-id={pkg.jadwalId}
       onClick={handleCardClick}
       className={`
-        bg-white dark:bg-slate-800 rounded-xl relative overflow-hidden cursor-pointer
+        bg-white dark:bg-slate-800 rounded-xl relative overflow-hidden cursor-pointer scroll-mt-52
         transition-all duration-300 ease-out
         ${isExpanded 
           ? 'shadow-lg ring-1 ring-emerald-100 dark:ring-emerald-900 pb-2' 
@@ -691,12 +663,48 @@ _________________________
                 PROMO
               </span>
             )}
+            {seasons.map(season => (
+              <span
+                key={season}
+                title={SEASON_LABELS[season].description}
+                className={`inline-block mt-1 ml-1 px-2 py-0.5 text-xs font-medium rounded ${SEASON_BADGE_CLASSES[season]}`}
+              >
+                {SEASON_LABELS[season].shortLabel}
+              </span>
+            ))}
+            {onTogglePin && (
+              <button
+                type="button"
+                data-html2canvas-ignore
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onTogglePin();
+                }}
+                disabled={!isPinned && isPinDisabled}
+                className={`inline-flex items-center gap-1 mt-1 ml-1 px-2 py-0.5 text-xs font-medium rounded border transition-colors disabled:opacity-40 ${
+                  isPinned
+                    ? 'bg-emerald-50 border-emerald-300 text-emerald-700 dark:bg-emerald-900/30 dark:border-emerald-700 dark:text-emerald-300'
+                    : 'bg-white border-gray-200 text-gray-500 hover:border-emerald-300 hover:text-emerald-600 dark:bg-slate-800 dark:border-slate-600 dark:text-slate-400'
+                }`}
+              >
+                <Scale size={12} />
+                {isPinned ? 'Dibandingkan' : 'Bandingkan'}
+              </button>
+            )}
           </div>
           <div className="text-right shrink-0">
             <p className="text-xs text-gray-500 dark:text-slate-400">MULAI</p>
             <p className="text-lg font-bold text-orange-600 dark:text-orange-400">
-              Rp {formatHeaderPrice(absoluteMinPrice)} <span className="text-sm">Jt</span>
+              Rp {formatPriceMillions(startingPrice?.price ?? null)} <span className="text-sm">Jt</span>
             </p>
+            {matchingTiers && matchingTiers.length > 0 && (
+              <p
+                title="Paket hotel yang sesuai filter"
+                className="mt-0.5 text-[10px] font-semibold text-emerald-700 dark:text-emerald-400"
+              >
+                ✓ {matchingTiers.join(', ')}
+              </p>
+            )}
           </div>
         </div>
 
@@ -713,6 +721,7 @@ _________________________
                 <span>/</span>
                 <span>{formatDate(pkg.keberangkatan.tgl)}</span>
               </p>
+              <p className="text-[10px] text-emerald-700 dark:text-emerald-400">{formatHijriDate(pkg.keberangkatan.tgl, 'short')}</p>
               <p className="text-xs text-gray-600 dark:text-slate-300">
                 {pkg.keberangkatan.jam.replace('.', ':')} - {pkg.kepulangan.jam.replace('.', ':')}
                 {isNextDay(pkg.keberangkatan.jam, pkg.kepulangan.jam) && (
@@ -733,6 +742,7 @@ _________________________
                 <span>/</span>
                 <span>{formatDate(pkg.kepulangan.tgl)}</span>
               </p>
+              <p className="text-[10px] text-emerald-700 dark:text-emerald-400">{formatHijriDate(pkg.kepulangan.tgl, 'short')}</p>
               <p className="text-xs text-gray-600 dark:text-slate-300">
                 {pkg.kepulangan.jam.replace('.', ':')} - {pkg.keberangkatan.jam.replace('.', ':')}
                 {isNextDay(pkg.kepulangan.jam, pkg.keberangkatan.jam) && (
@@ -757,20 +767,20 @@ _________________________
               <p className="text-[10px] text-gray-400 uppercase tracking-wide">Mekkah</p>
               <p 
                 className="text-xs text-gray-700 dark:text-slate-300 font-medium line-clamp-1 text-ellipsis overflow-hidden break-all"
-                title={hotelInfo?.mekkah_hotel || '-'}
+                title={mekkahStay?.hotelName || '-'}
               >
-                {hotelInfo?.mekkah_hotel || '-'}
+                {mekkahStay?.hotelName || '-'}
               </p>
-              {hotelInfo?.mekkah_bintang && (
+              {mekkahStay?.stars && (
                 <div className="flex items-center gap-2 mt-0.5">
                   <div className="flex items-center gap-0.5">
-                    {Array.from({ length: parseInt(hotelInfo.mekkah_bintang) }).map((_, i) => (
+                    {Array.from({ length: mekkahStay.stars }).map((_, i) => (
                       <span key={i} className="text-[8px] text-amber-400">★</span>
                     ))}
                   </div>
-                  {hotelInfo.mekkah_jarak && (
+                  {mekkahStay.distanceToHaram && (
                     <span className="text-[10px] text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded">
-                      ± {hotelInfo.mekkah_jarak}
+                      ± {mekkahStay.distanceToHaram}
                     </span>
                   )}
                 </div>
@@ -790,20 +800,20 @@ _________________________
               <p className="text-[10px] text-gray-400 uppercase tracking-wide">Madinah</p>
               <p 
                 className="text-xs text-gray-700 dark:text-slate-300 font-medium line-clamp-1 text-ellipsis overflow-hidden break-all"
-                title={hotelInfo?.madinah_hotel || '-'}
+                title={madinahStay?.hotelName || '-'}
               >
-                {hotelInfo?.madinah_hotel || '-'}
+                {madinahStay?.hotelName || '-'}
               </p>
-              {hotelInfo?.madinah_bintang && (
+              {madinahStay?.stars && (
                 <div className="flex items-center gap-2 mt-0.5">
                   <div className="flex items-center gap-0.5">
-                    {Array.from({ length: parseInt(hotelInfo.madinah_bintang) }).map((_, i) => (
+                    {Array.from({ length: madinahStay.stars }).map((_, i) => (
                       <span key={i} className="text-[8px] text-amber-400">★</span>
                     ))}
                   </div>
-                  {hotelInfo.madinah_jarak && (
+                  {madinahStay.distanceToHaram && (
                     <span className="text-[10px] text-gray-500 dark:text-slate-400 bg-gray-100 dark:bg-slate-700 px-1.5 py-0.5 rounded">
-                      ± {hotelInfo.madinah_jarak}
+                      ± {madinahStay.distanceToHaram}
                     </span>
                   )}
                 </div>
@@ -829,7 +839,43 @@ _________________________
         <div ref={contentRef} className="px-4 pb-4">
           {/* Divider */}
           <div className="border-t border-dashed border-gray-200 dark:border-slate-700 my-2" />
-          
+
+          {/* ---- Tier Selector (only when the package has several tiers) ---- */}
+          {tierOptions.length > 1 && (
+            <div data-html2canvas-ignore className="mb-2">
+              <p className="text-[10px] text-gray-500 dark:text-slate-400 uppercase tracking-wide mb-1.5">Pilih Paket Hotel</p>
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {tierOptions.map(({ tier, price }) => {
+                  const isMatching = matchingTiers?.includes(tier) ?? false;
+                  return (
+                  <button
+                    key={tier}
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSelectedTier(tier);
+                    }}
+                    className={`shrink-0 flex flex-col items-start px-3 py-1.5 rounded-lg border-2 transition-all ${
+                      tier === activeTier
+                        ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/30'
+                        : 'border-gray-200 dark:border-slate-700 hover:border-emerald-300'
+                    } ${matchingTiers && !isMatching ? 'opacity-50' : ''}`}
+                  >
+                    <span className={`text-xs font-bold ${
+                      tier === activeTier ? 'text-emerald-700 dark:text-emerald-300' : 'text-gray-700 dark:text-slate-200'
+                    }`}>
+                      {tier}{isMatching && ' ✓'}
+                    </span>
+                    <span className="text-[10px] text-gray-500 dark:text-slate-400">
+                      Rp {formatPriceMillions(price)} Jt
+                    </span>
+                  </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* ---- New Info Section: Landing & Manasik ---- */}
           <div className="grid grid-cols-2 gap-3 mb-2 bg-gray-50 dark:bg-slate-900/50 p-3 rounded-lg">
             {/* Landing Info */}
@@ -858,6 +904,9 @@ _________________________
                   {pkg.manasikTanggal ? (
                     <>
                       {formatDate(pkg.manasikTanggal)}
+                      <span className="block text-[10px] font-medium text-emerald-700 dark:text-emerald-400">
+                        {formatHijriDate(pkg.manasikTanggal, 'short')}
+                      </span>
                     </>
                   ) : (
                     'TBA'
@@ -867,7 +916,7 @@ _________________________
             </div>
           </div>
 
-          {/* Agent Profile (only visible when URL slug matches an agent) */}
+          {/* Agent Profile (link agent or saved local profile) */}
           {currentAgent && (
             <div className="px-0" data-html2canvas-ignore>
               <AgentProfile agent={currentAgent} packageName={pkg.nama} />
@@ -883,7 +932,7 @@ _________________________
               </h4>
               <div className="grid grid-cols-2 gap-3">
                 {extraHotels.map((hotel, idx) => (
-                  <div key={`${hotel.city}-${idx}`} className="flex items-start gap-2">
+                  <div key={`${hotel.cityKey}-${idx}`} className="flex items-start gap-2">
                     <div className="w-5 h-5 flex items-center justify-center text-emerald-600 mt-0.5 bg-emerald-50 rounded-full">
                       <Building2 size={12} />
                     </div>
@@ -891,13 +940,13 @@ _________________________
                       <p className="text-[10px] text-gray-400 uppercase tracking-wide">{hotel.city}</p>
                       <p 
                         className="text-xs text-gray-700 dark:text-slate-200 font-medium line-clamp-1 text-ellipsis overflow-hidden break-all"
-                        title={hotel.name}
+                        title={hotel.hotelName}
                       >
-                        {hotel.name}
+                        {hotel.hotelName}
                       </p>
-                      {parseInt(hotel.star) > 0 && (
+                      {hotel.stars && (
                         <div className="flex items-center gap-0.5 mt-0.5">
-                          {Array.from({ length: parseInt(hotel.star) }).map((_, i) => (
+                          {Array.from({ length: hotel.stars }).map((_, i) => (
                             <span key={i} className="text-[8px] text-amber-400">★</span>
                           ))}
                         </div>
@@ -909,8 +958,8 @@ _________________________
             </div>
           )}
 
-          {/* ---- Action Buttons (4 columns) ---- */}
-          <div data-html2canvas-ignore className="grid grid-cols-4 gap-2 mt-0 mb-4">
+          {/* ---- Action Buttons (5 columns) ---- */}
+          <div data-html2canvas-ignore className="grid grid-cols-5 gap-2 mt-0 mb-4">
             {pkg.itineraryUrl ? (
               <button
                 type="button"
@@ -918,7 +967,7 @@ _________________________
                   e.stopPropagation();
                   setIsItineraryOpen(true);
                 }}
-                className="flex flex-col items-center justify-center py-3 px-2 rounded-xl border-2 transition-all border-gray-200 hover:border-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 dark:border-slate-700 dark:hover:border-blue-500"
+                className="flex flex-col items-center justify-center py-3 px-1 rounded-xl border-2 transition-all border-gray-200 hover:border-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 dark:border-slate-700 dark:hover:border-blue-500"
               >
                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-blue-500 dark:text-blue-400 mb-1">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M6.75 3v2.25M17.25 3v2.25M3 18.75V7.5a2.25 2.25 0 0 1 2.25-2.25h13.5A2.25 2.25 0 0 1 21 7.5v11.25m-18 0A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75m-18 0v-7.5A2.25 2.25 0 0 1 5.25 9h13.5A2.25 2.25 0 0 1 21 11.25v7.5" />
@@ -926,7 +975,7 @@ _________________________
                 <span className="text-xs font-medium text-gray-600 dark:text-slate-200">Itinerary</span>
               </button>
             ) : (
-              <div className="flex flex-col items-center justify-center py-3 px-2 rounded-xl border-2 transition-all border-gray-100 opacity-50 cursor-not-allowed dark:border-slate-800">
+              <div className="flex flex-col items-center justify-center py-3 px-1 rounded-xl border-2 transition-all border-gray-100 opacity-50 cursor-not-allowed dark:border-slate-800">
                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-gray-500 mb-1">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M6.75 3v2.25M17.25 3v2.25M3 18.75V7.5a2.25 2.25 0 0 1 2.25-2.25h13.5A2.25 2.25 0 0 1 21 7.5v11.25m-18 0A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75m-18 0v-7.5A2.25 2.25 0 0 1 5.25 9h13.5A2.25 2.25 0 0 1 21 11.25v7.5" />
                 </svg>
@@ -941,7 +990,7 @@ _________________________
                   e.stopPropagation();
                   setIsBrochureOpen(true);
                 }}
-                className="flex flex-col items-center justify-center py-3 px-2 rounded-xl border-2 transition-all border-gray-200 hover:border-orange-300 hover:bg-orange-50 dark:hover:bg-orange-900/30 dark:border-slate-700 dark:hover:border-orange-500"
+                className="flex flex-col items-center justify-center py-3 px-1 rounded-xl border-2 transition-all border-gray-200 hover:border-orange-300 hover:bg-orange-50 dark:hover:bg-orange-900/30 dark:border-slate-700 dark:hover:border-orange-500"
               >
                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-orange-500 dark:text-orange-400 mb-1">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 0 0-3.375-3.375h-1.5A1.125 1.125 0 0 1 13.5 7.125v-1.5a3.375 3.375 0 0 0-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 0 0-9-9Z" />
@@ -949,7 +998,7 @@ _________________________
                 <span className="text-xs font-medium text-gray-600 dark:text-slate-200">Brosur</span>
               </button>
             ) : (
-              <div className="flex flex-col items-center justify-center py-3 px-2 rounded-xl border-2 transition-all border-gray-100 opacity-50 cursor-not-allowed">
+              <div className="flex flex-col items-center justify-center py-3 px-1 rounded-xl border-2 transition-all border-gray-100 opacity-50 cursor-not-allowed">
                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5 text-gray-500 mb-1">
                   <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 0 0-3.375-3.375h-1.5A1.125 1.125 0 0 1 13.5 7.125v-1.5a3.375 3.375 0 0 0-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 0 0-9-9Z" />
                 </svg>
@@ -962,7 +1011,7 @@ _________________________
               type="button"
               onClick={handleScreenshot}
               disabled={isCapturing}
-              className="flex flex-col items-center justify-center py-3 px-2 rounded-xl border-2 transition-all border-gray-200 hover:border-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/30 dark:border-slate-700 dark:hover:border-purple-500 disabled:opacity-60"
+              className="flex flex-col items-center justify-center py-3 px-1 rounded-xl border-2 transition-all border-gray-200 hover:border-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/30 dark:border-slate-700 dark:hover:border-purple-500 disabled:opacity-60"
             >
               {isCapturing ? (
                 <Loader2 size={20} className="text-purple-600 dark:text-purple-400 mb-1 animate-spin" />
@@ -974,11 +1023,21 @@ _________________________
               </span>
             </button>
 
+            {/* Add to Calendar Button */}
+            <button
+              type="button"
+              onClick={handleAddToCalendar}
+              className="flex flex-col items-center justify-center py-3 px-1 rounded-xl border-2 transition-all border-gray-200 hover:border-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/30 dark:border-slate-700 dark:hover:border-emerald-500"
+            >
+              <CalendarPlus size={20} className="text-emerald-600 dark:text-emerald-400 mb-1" />
+              <span className="text-xs font-medium text-gray-600 dark:text-slate-200">Kalender</span>
+            </button>
+
             {/* WhatsApp Share Button */}
             <button
               type="button"
               onClick={handleWhatsAppShare}
-              className="flex flex-col items-center justify-center py-3 px-2 rounded-xl border-2 transition-all border-gray-200 hover:border-green-400 hover:bg-green-50 dark:hover:bg-green-900/30 dark:border-slate-700 dark:hover:border-green-500"
+              className="flex flex-col items-center justify-center py-3 px-1 rounded-xl border-2 transition-all border-gray-200 hover:border-green-400 hover:bg-green-50 dark:hover:bg-green-900/30 dark:border-slate-700 dark:hover:border-green-500"
             >
               <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 text-green-600 mb-1">
                 <path d="M17.472 14.382c-.297-.149-1.758-.867-2.03-.967-.273-.099-.471-.148-.67.15-.197.297-.767.966-.94 1.164-.173.199-.347.223-.644.075-.297-.15-1.255-.463-2.39-1.475-.883-.788-1.48-1.761-1.653-2.059-.173-.297-.018-.458.13-.606.134-.133.298-.347.446-.52.149-.174.198-.298.298-.497.099-.198.05-.371-.025-.52-.075-.149-.669-1.612-.916-2.207-.242-.579-.487-.5-.669-.51-.173-.008-.371-.01-.57-.01-.198 0-.52.074-.792.372-.272.297-1.04 1.016-1.04 2.479 0 1.462 1.065 2.875 1.213 3.074.149.198 2.096 3.2 5.077 4.487.709.306 1.262.489 1.694.625.712.227 1.36.195 1.871.118.571-.085 1.758-.719 2.006-1.413.248-.694.248-1.289.173-1.413-.074-.124-.272-.198-.57-.347m-5.421 7.403h-.004a9.87 9.87 0 01-5.031-1.378l-.361-.214-3.741.982.998-3.648-.235-.374a9.86 9.86 0 01-1.51-5.26c.001-5.45 4.436-9.884 9.888-9.884 2.64 0 5.122 1.03 6.988 2.898a9.825 9.825 0 012.893 6.994c-.003 5.45-4.437 9.884-9.885 9.884m8.413-18.297A11.815 11.815 0 0012.05 0C5.495 0 .16 5.335.157 11.892c0 2.096.547 4.142 1.588 5.945L.057 24l6.305-1.654a11.882 11.882 0 005.683 1.448h.005c6.554 0 11.89-5.335 11.893-11.893a11.821 11.821 0 00-3.48-8.413z"/>
@@ -992,7 +1051,7 @@ _________________________
            {/* ---- Pricing Table (Compact) ---- */}
           <div className="mb-4">
             <h4 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wider mb-2">
-              Rincian Biaya Paket
+              Rincian Biaya Paket{tierOptions.length > 1 && ` · ${activeTier}`}
             </h4>
             <div className="border-t border-gray-100 dark:border-slate-700">
               {pricing?.Quard && (
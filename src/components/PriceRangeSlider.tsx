@@ -0,0 +1,101 @@
+'use client';
+
+import { formatPriceMillions, type NumberRange } from '@/utils';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PriceRangeSliderProps {
+  /** Lowest and highest price the handles can reach */
+  min: number;
+  max: number;
+  /** Handle step in Rupiah */
+  step: number;
+  /** Selected range; a handle at its bound is stored as null (open end) */
+  value: NumberRange;
+  onChange: (value: NumberRange) => void;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Two range inputs stacked on one track: only the thumbs take pointer input */
+const THUMB_INPUT_CLASS = `
+  absolute inset-0 w-full h-6 appearance-none bg-transparent pointer-events-none
+  [&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none
+  [&::-webkit-slider-thumb]:w-5 [&::-webkit-slider-thumb]:h-5 [&::-webkit-slider-thumb]:rounded-full
+  [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-emerald-500
+  [&::-webkit-slider-thumb]:shadow [&::-webkit-slider-thumb]:cursor-pointer
+  [&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:h-4
+  [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-white [&::-moz-range-thumb]:border-2
+  [&::-moz-range-thumb]:border-emerald-500 [&::-moz-range-thumb]:cursor-pointer
+`;
+
+// ============================================
+// Component
+// ============================================
+
+/**
+ * Dual-handle price range (budget), labels in millions ("Rp 35.5 Jt")
+ */
+export function PriceRangeSlider({ min, max, step, value, onChange }: PriceRangeSliderProps) {
+  const low = Math.min(Math.max(value.min ?? min, min), max);
+  const high = Math.max(Math.min(value.max ?? max, max), low);
+  const span = max - min || 1;
+  // The high thumb sits on top unless both handles are at the top end,
+  // where only the low one can still move
+  const lowOnTop = low >= max - step;
+
+  const handleLowChange = (next: number) => {
+    const clamped = Math.min(next, high);
+    onChange({ min: clamped <= min ? null : clamped, max: value.max });
+  };
+
+  const handleHighChange = (next: number) => {
+    const clamped = Math.max(next, low);
+    onChange({ min: value.min, max: clamped >= max ? null : clamped });
+  };
+
+  return (
+    // Dragging a handle must not drag the bottom sheet
+    <div onPointerDown={(e) => e.stopPropagation()}>
+      <div className="flex justify-between text-xs font-semibold text-gray-700 mb-2">
+        <span>Rp {formatPriceMillions(low)} Jt</span>
+        <span>Rp {formatPriceMillions(high)} Jt{value.max === null ? '+' : ''}</span>
+      </div>
+      <div className="relative h-6">
+        <div className="absolute top-1/2 -translate-y-1/2 inset-x-0 h-1.5 rounded-full bg-gray-200" />
+        <div
+          className="absolute top-1/2 -translate-y-1/2 h-1.5 rounded-full bg-emerald-500"
+          style={{ left: `${((low - min) / span) * 100}%`, right: `${((max - high) / span) * 100}%` }}
+        />
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={low}
+          onChange={(e) => handleLowChange(Number(e.target.value))}
+          className={THUMB_INPUT_CLASS}
+          style={{ zIndex: lowOnTop ? 2 : 0 }}
+          aria-label="Harga minimal"
+        />
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={high}
+          onChange={(e) => handleHighChange(Number(e.target.value))}
+          className={THUMB_INPUT_CLASS}
+          style={{ zIndex: 1 }}
+          aria-label="Harga maksimal"
+        />
+      </div>
+    </div>
+  );
+}
+
+export default PriceRangeSlider;
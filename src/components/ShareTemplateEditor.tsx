@@ -0,0 +1,224 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Save, RotateCcw, AlertTriangle } from 'lucide-react';
+import type { UmrohPackage } from '@/types';
+import type { AgentData } from '@/data/agents';
+import {
+  SHARE_TEMPLATES,
+  SHARE_FORMAT_OPTIONS,
+  SHARE_TEMPLATE_VARIABLES,
+  buildShareVariables,
+  buildPackageLink,
+  getStartingPrice,
+  parseTemplate,
+  renderTemplate,
+  findUnknownVariables,
+  type ShareFormat,
+} from '@/utils';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ShareTemplateEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Saved custom template (undefined = built-in template of `format`) */
+  template?: string;
+  /** Built-in format the editor starts from */
+  format: ShareFormat;
+  /** Package used for the live preview */
+  samplePackage: UmrohPackage | null;
+  /** Hijri year of the sample package (preview link) */
+  year: string;
+  /** Agent shown in the preview footer */
+  agent: AgentData | null;
+  /** Called with the new template (undefined when equal to a built-in) */
+  onSave: (template: string | undefined, format: ShareFormat) => void;
+}
+
+const KNOWN_VARIABLES = SHARE_TEMPLATE_VARIABLES.map(variable => variable.key);
+
+// ============================================
+// Component
+// ============================================
+
+export function ShareTemplateEditor({
+  isOpen,
+  onClose,
+  template,
+  format,
+  samplePackage,
+  year,
+  agent,
+  onSave,
+}: ShareTemplateEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [draft, setDraft] = useState('');
+
+  // Start from the saved template each time the editor opens
+  useEffect(() => {
+    if (isOpen) setDraft(template ?? SHARE_TEMPLATES[format]);
+  }, [isOpen, template, format]);
+
+  const parsed = useMemo(() => parseTemplate(draft), [draft]);
+  const unknownVariables = useMemo(() => findUnknownVariables(draft, KNOWN_VARIABLES), [draft]);
+
+  const preview = useMemo(() => {
+    if (!samplePackage || parsed.errors.length > 0) return '';
+    const tier = getStartingPrice(samplePackage)?.tier ?? Object.keys(samplePackage.priceMatrix)[0];
+    return renderTemplate(parsed, buildShareVariables(samplePackage, {
+      tier,
+      agent,
+      packageLink: buildPackageLink(window.location.origin, '', year, samplePackage.jadwalId),
+    }));
+  }, [parsed, samplePackage, agent, year]);
+
+  if (!isOpen) return null;
+
+  // Insert {{key}} at the cursor
+  const insertVariable = (key: string) => {
+    const textarea = textareaRef.current;
+    const tag = `{{${key}}}`;
+    if (!textarea) {
+      setDraft(current => current + tag);
+      return;
+    }
+
+    const { selectionStart, selectionEnd } = textarea;
+    setDraft(current => current.slice(0, selectionStart) + tag + current.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + tag.length, selectionStart + tag.length);
+    });
+  };
+
+  const handleSave = () => {
+    if (parsed.errors.length > 0) return;
+    const builtIn = (Object.keys(SHARE_TEMPLATES) as ShareFormat[]).find(key => SHARE_TEMPLATES[key] === draft);
+    onSave(builtIn ? undefined : draft, builtIn ?? format);
+    onClose();
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[10000] bg-white dark:bg-slate-900 flex flex-col animate-in fade-in duration-200">
+
+      {/* ─── HEADER ─── */}
+      <div className="flex-none bg-white/90 dark:bg-slate-900/90 backdrop-blur-xl border-b border-gray-200/60 dark:border-slate-700/60 px-5 py-4 flex justify-between items-center shadow-sm">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">Template Pesan WhatsApp</h2>
+          <p className="text-[11px] text-gray-500 dark:text-slate-400">
+            {'Tulis {{variabel}} atau {{#if variabel}}…{{else}}…{{/if}}'}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 bg-gray-100 dark:bg-slate-800 rounded-full text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-700 transition-colors"
+          aria-label="Tutup editor template"
+        >
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      {/* ─── BODY ─── */}
+      <div className="flex-1 overflow-auto p-4 space-y-4 max-w-3xl w-full mx-auto">
+
+        {/* Built-in templates */}
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide">Mulai dari:</span>
+          {SHARE_FORMAT_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setDraft(SHARE_TEMPLATES[option.value])}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-slate-800 hover:bg-gray-200 dark:hover:bg-slate-700 text-xs font-semibold text-gray-700 dark:text-slate-200 transition-colors"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Variables */}
+        <div className="flex flex-wrap gap-1.5">
+          {SHARE_TEMPLATE_VARIABLES.map(variable => (
+            <button
+              key={variable.key}
+              type="button"
+              onClick={() => insertVariable(variable.key)}
+              title={variable.label}
+              className="px-2 py-1 rounded-md border border-emerald-200 dark:border-emerald-800 bg-emerald-50 dark:bg-emerald-900/30 text-[11px] font-mono text-emerald-700 dark:text-emerald-300 hover:bg-emerald-100 dark:hover:bg-emerald-900/50 transition-colors"
+            >
+              {variable.key}
+            </button>
+          ))}
+        </div>
+
+        {/* Editor */}
+        <textarea
+          ref={textareaRef}
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          spellCheck={false}
+          rows={14}
+          className="w-full p-3 rounded-xl border border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-800 font-mono text-xs text-gray-800 dark:text-slate-100 outline-none focus:bg-white dark:focus:bg-slate-800 focus:border-emerald-500 focus:ring-4 focus:ring-emerald-500/10 transition-all"
+        />
+
+        {/* Problems */}
+        {(parsed.errors.length > 0 || unknownVariables.length > 0) && (
+          <div className="p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-xs text-amber-800 dark:text-amber-200 space-y-1">
+            {parsed.errors.map(error => (
+              <p key={error} className="flex items-start gap-1.5">
+                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                {error}
+              </p>
+            ))}
+            {unknownVariables.length > 0 && (
+              <p className="flex items-start gap-1.5">
+                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                Variabel tidak dikenal (akan kosong): {unknownVariables.join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Preview */}
+        <div className="space-y-1.5">
+          <span className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide">
+            Pratinjau{samplePackage ? ` · ${samplePackage.nama}` : ''}
+          </span>
+          <pre className="p-3 rounded-xl bg-[#E7FFDB] dark:bg-emerald-950/40 text-xs text-gray-800 dark:text-slate-100 whitespace-pre-wrap break-words font-sans">
+            {!samplePackage
+              ? 'Pratinjau muncul setelah data paket dimuat.'
+              : parsed.errors.length > 0
+                ? 'Perbaiki template untuk melihat pratinjau.'
+                : preview}
+          </pre>
+        </div>
+      </div>
+
+      {/* ─── FOOTER ─── */}
+      <div className="flex-none border-t border-gray-200/60 dark:border-slate-700/60 p-4 grid grid-cols-2 gap-3 max-w-3xl w-full mx-auto">
+        <button
+          onClick={onClose}
+          className="bg-white dark:bg-slate-800 border-2 border-gray-100 dark:border-slate-700 text-gray-700 dark:text-slate-200 font-bold py-3.5 rounded-xl transition-all active:scale-[0.98]"
+        >
+          Batal
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={parsed.errors.length > 0}
+          className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-60 text-white font-bold py-3.5 rounded-xl flex items-center justify-center gap-2 transition-all shadow-lg shadow-emerald-500/30 active:scale-[0.98]"
+        >
+          <Save className="w-5 h-5" />
+          Pakai Template
+        </button>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+export default ShareTemplateEditor;
@@ -6,3 +6,7 @@ export * from './PackageCard';
 export * from './FilterHeader';
 export * from './FloatingControls';
 export * from './FilterModal';
+export * from './CompareModal';
+export * from './ShareTemplateEditor';
+export * from './DigestShareSheet';
+export * from './PriceRangeSlider';
@@ -1,11 +1,44 @@
+/**
+ * Agent Registry
+ * Single list of agents for the SPA and the Pages Functions (middleware
+ * meta tags, OG images), so keep this module free of `@/` imports and
+ * browser APIs.
+ */
+
+import type { ShareFormat } from '../utils/share-message';
+
 export interface AgentData {
   name: string;
   website: string;
   phone: string; // Format: 628...
   photo: string; // Path ke folder public
+  /** Preferred WhatsApp share format (default: long) */
+  shareFormat?: ShareFormat;
+  /** Custom WhatsApp share template (overrides shareFormat) */
+  shareTemplate?: string;
+}
+
+/**
+ * Agent as stored by the admin API (Workers KV)
+ * Records override the built-in list below by slug; inactive records hide
+ * the agent everywhere without deleting it.
+ */
+export interface AgentRecord extends AgentData {
+  slug: string;
+  active: boolean;
+  /** ISO timestamp of the last change */
+  updatedAt: string;
 }
 
+/**
+ * First path segments that can never be agent slugs (routes and files)
+ */
+export const RESERVED_SLUGS = [
+  'index.html', '404.html', 'api', 'og', 'ical', 'brosur', 'itinerary', 'agents', 'assets',
+];
+
 // Key object adalah "Slug" URL (misal: /bagas)
+// Daftar bawaan; agen baru ditambahkan lewat admin API (lihat functions/_lib/agent-store.ts)
 export const AGENTS_DATA: Record<string, AgentData> = {
   'bagas': {
     name: 'Bagas Pramudita',
@@ -14,7 +47,7 @@ export const AGENTS_DATA: Record<string, AgentData> = {
     photo: '/agents/bagas.jpg',
   },
   'nila': {
-    name: 'Nila Novita Sari ',
+    name: 'Nila Novita Sari',
     website: 'alhijaztourtravels.com',
     phone: '6285211209049',
     photo: '/agents/nila.jpg',
@@ -50,3 +83,38 @@ export const AGENTS_DATA: Record<string, AgentData> = {
     photo: '/agents/selfiah.jpg',
   },
 };
+
+/**
+ * Agent slug from a URL path ("/bagas" → "bagas", "/" → "")
+ */
+export function getSlugFromPath(pathname: string): string {
+  return pathname.replace(/^\/+/, '').split('/')[0].toLowerCase();
+}
+
+/**
+ * Agent for a slug, null when unknown
+ * (own keys only, so "/constructor" is not an agent)
+ */
+export function getAgentBySlug(
+  slug: string,
+  agents: Record<string, AgentData> = AGENTS_DATA
+): AgentData | null {
+  return Object.prototype.hasOwnProperty.call(agents, slug) ? agents[slug] : null;
+}
+
+/**
+ * Normalize Indonesian phone numbers to 62… ("0812-…" → "62812…")
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.startsWith('0')) return `62${digits.slice(1)}`;
+  if (digits.startsWith('8')) return `62${digits}`;
+  return digits;
+}
+
+/**
+ * Initials avatar for agents without a photo (or when it fails to load)
+ */
+export function getAgentAvatarFallback(name: string): string {
+  return `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=random`;
+}
@@ -0,0 +1,67 @@
+/**
+ * Agent Service
+ * Loads the runtime agent registry from /api/agents (agents added through
+ * the admin API). The built-in AGENTS_DATA list is used until the request
+ * answers and whenever it fails (offline, `vite` dev without Functions).
+ */
+
+import { AGENTS_DATA, getAgentBySlug, type AgentData } from '../data/agents';
+
+// ============================================
+// Constants
+// ============================================
+
+const AGENTS_API_URL = '/api/agents';
+const AGENTS_TIMEOUT = 5000;
+
+// ============================================
+// State
+// ============================================
+
+/** One request per page load, shared by every caller */
+let agentsPromise: Promise<Record<string, AgentData>> | null = null;
+
+// ============================================
+// Functions
+// ============================================
+
+async function requestAgents(): Promise<Record<string, AgentData>> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), AGENTS_TIMEOUT);
+
+  try {
+    const response = await fetch(AGENTS_API_URL, {
+      headers: { 'Accept': 'application/json' },
+      signal: controller.signal,
+    });
+    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+    const data = await response.json() as { status?: string; agents?: Record<string, AgentData> };
+    if (data.status !== 'ok' || !data.agents || typeof data.agents !== 'object') {
+      throw new Error('Unexpected agents payload');
+    }
+    return data.agents;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.warn('[agent-service] Using built-in agents:', errorMessage);
+    return AGENTS_DATA;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Active agents keyed by slug (never rejects)
+ */
+export function getAgents(): Promise<Record<string, AgentData>> {
+  agentsPromise ??= requestAgents();
+  return agentsPromise;
+}
+
+/**
+ * Agent for a URL slug from the runtime registry, null when unknown
+ */
+export async function resolveAgent(slug: string): Promise<AgentData | null> {
+  if (!slug) return null;
+  return getAgentBySlug(slug, await getAgents());
+}
@@ -4,13 +4,23 @@
  */
 
 import type {
+  ApiErrorCode,
+  ApiErrorEnvelope,
   ApiResponse,
   UmrohPackage,
   UmrohPackageRaw,
-  PackagePricing,
   PackageHotels,
-  HotelInfo,
+  HotelStay,
+  RawHotelInfo,
 } from '../types/umroh-package';
+import { readCachedPackages, writeCachedPackages } from './package-cache';
+import { buildPriceMatrix, compareByStartingPrice, getStartingPrice } from '../utils/pricing';
+import { parseDistanceMeters } from '../utils/distance';
+import {
+  validatePackageRaw,
+  type PackageIssue,
+  type QuarantinedPackage,
+} from './package-validation';
 
 // ============================================
 // Constants
@@ -20,25 +30,68 @@ import type {
 const API_BASE_URL = '/api/api-get';
 const DEFAULT_YEAR_CODE = '1448'; // Hijri year code
 
+/** Display names for hotel city keys that don't title-case nicely */
+const HOTEL_CITY_LABELS: Record<string, string> = {
+  mekkah: 'Mekkah',
+  madinah: 'Madinah',
+  aqsha: 'Aqsha',
+};
+
+/** City keys of the two Saudi stays every package has */
+export const HARAM_CITY_KEYS = ['mekkah', 'madinah'] as const;
+
+export type HaramCityKey = typeof HARAM_CITY_KEYS[number];
+
 // ============================================
 // Transform Functions
 // ============================================
 
 /**
- * Transform raw API hotel data to typed HotelInfo
+ * Readable city name from an API hotel key (e.g. "al_ula" -> "Al Ula")
+ */
+function getHotelCityLabel(cityKey: string): string {
+  return HOTEL_CITY_LABELS[cityKey] ?? cityKey
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Transform validated hotel data to an ordered list of stays
+ * Every "<city>_hotel" key becomes a stay, so new destinations
+ * (Dubai, Jordan, Al-Aqsa, ...) need no code changes
  */
-function transformHotelInfo(rawHotel: Record<string, string>): HotelInfo {
-  return rawHotel as unknown as HotelInfo;
+function transformHotelStays(rawHotel: RawHotelInfo): HotelStay[] {
+  const stays: HotelStay[] = [];
+
+  for (const [key, value] of Object.entries(rawHotel)) {
+    const match = key.match(/^(.+)_hotel$/);
+    if (!match || !value) continue;
+
+    const cityKey = match[1];
+    const stars = parseInt(rawHotel[`${cityKey}_bintang`] || '', 10);
+    const distance = rawHotel[`${cityKey}_jarak`] || null;
+    stays.push({
+      cityKey,
+      city: getHotelCityLabel(cityKey),
+      hotelName: value,
+      stars: stars > 0 ? stars : null,
+      distanceToHaram: distance,
+      distanceMeters: parseDistanceMeters(distance),
+    });
+  }
+
+  return stays;
 }
 
 /**
- * Transform raw API package data to typed UmrohPackage
+ * Transform a validated raw API package to typed UmrohPackage
  */
 function transformPackage(raw: UmrohPackageRaw): UmrohPackage {
   // Transform hotel tiers
   const hotel: PackageHotels = {};
   for (const [tier, hotelData] of Object.entries(raw.paket_hotel)) {
-    hotel[tier] = transformHotelInfo(hotelData);
+    hotel[tier] = transformHotelStays(hotelData);
   }
 
   return {
@@ -80,13 +133,56 @@ function transformPackage(raw: UmrohPackageRaw): UmrohPackage {
 
     // Pricing
     perlengkapanHarga: raw.perlengkapan_harga,
-    harga: raw.paket_harga as PackagePricing,
+    harga: raw.paket_harga,
+    priceMatrix: buildPriceMatrix(raw.paket_harga),
 
     // Hotels
     hotel,
   };
 }
 
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Why a package request failed
+ * - API error codes come from the /api proxy envelope (upstream problems)
+ * - NETWORK: the device could not reach our own /api at all
+ * - TIMEOUT: no answer within the request timeout
+ */
+export type PackagesErrorCode = ApiErrorCode | 'NETWORK' | 'TIMEOUT';
+
+class PackagesRequestError extends Error {
+  constructor(public code: PackagesErrorCode, message: string) {
+    super(message);
+    this.name = 'PackagesRequestError';
+  }
+}
+
+/**
+ * Map anything thrown while fetching to an error code
+ */
+function toErrorCode(error: unknown): PackagesErrorCode {
+  if (error instanceof PackagesRequestError) return error.code;
+  if (error instanceof DOMException && error.name === 'AbortError') return 'TIMEOUT';
+  // fetch() rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError) return 'NETWORK';
+  return 'UPSTREAM_INVALID';
+}
+
+/**
+ * Read the proxy's JSON error envelope, if the response carries one
+ */
+async function readErrorEnvelope(response: Response): Promise<ApiErrorEnvelope | null> {
+  try {
+    const body = await response.json() as Partial<ApiErrorEnvelope>;
+    return body?.status === 'error' && body.error ? body as ApiErrorEnvelope : null;
+  } catch {
+    return null;
+  }
+}
+
 // ============================================
 // API Functions
 // ============================================
@@ -106,6 +202,23 @@ export interface GetPackagesOptions {
    * Custom fetch options
    */
   fetchOptions?: RequestInit;
+
+  /**
+   * Serve the last good response from IndexedDB first (default: true)
+   */
+  useCache?: boolean;
+
+  /**
+   * Called with fresh data once the background refresh of a cached
+   * response succeeds (stale-while-revalidate)
+   */
+  onRevalidate?: (result: GetPackagesResult) => void;
+
+  /**
+   * Origin of the /api proxy for callers outside the browser,
+   * e.g. Pages Functions (default: same origin)
+   */
+  baseUrl?: string;
 }
 
 export interface GetPackagesResult {
@@ -115,16 +228,127 @@ export interface GetPackagesResult {
   packages: UmrohPackage[];
   /** Total number of records from API */
   totalRecords: number;
+  /** Where the packages came from */
+  source: 'network' | 'cache';
+  /** When the data was fetched from the network (epoch ms) */
+  fetchedAt: number | null;
   /** Error message if request failed */
   error?: string;
+  /** Error code if request failed (upstream outage vs. network failure) */
+  errorCode?: PackagesErrorCode;
+  /** Data problems found while validating records (shown records included) */
+  warnings: PackageIssue[];
+  /** Records rejected by validation and not included in `packages` */
+  quarantined: QuarantinedPackage[];
+}
+
+/**
+ * Fetch and check the raw API response for a Hijri year
+ */
+async function fetchApiResponse(
+  yearCode: string,
+  timeout: number,
+  fetchOptions: RequestInit,
+  baseUrl = ''
+): Promise<ApiResponse> {
+  const url = `${baseUrl}${API_BASE_URL}/${yearCode}`;
+
+  // Create abort controller for timeout
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        ...fetchOptions.headers,
+      },
+      signal: controller.signal,
+      ...fetchOptions,
+    });
+
+    if (!response.ok) {
+      const envelope = await readErrorEnvelope(response);
+      if (envelope) {
+        throw new PackagesRequestError(envelope.error.code, envelope.error.message);
+      }
+      throw new PackagesRequestError('UPSTREAM_ERROR', `HTTP error! status: ${response.status}`);
+    }
+
+    const data: ApiResponse = await response.json();
+
+    if (data.status !== 'ok' || !Array.isArray(data.aaData)) {
+      throw new PackagesRequestError('UPSTREAM_INVALID', 'API returned error status');
+    }
+
+    return data;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Build a successful result from a raw API response
+ */
+function buildResult(
+  data: ApiResponse,
+  source: GetPackagesResult['source'],
+  fetchedAt: number
+): GetPackagesResult {
+  const packages: UmrohPackage[] = [];
+  const warnings: PackageIssue[] = [];
+  const quarantined: QuarantinedPackage[] = [];
+
+  // Validate, then transform raw data to typed packages
+  data.aaData.forEach((item, index) => {
+    const { record, issues } = validatePackageRaw(item, index);
+
+    warnings.push(...issues.filter(issue => issue.severity === 'warning'));
+
+    if (record) {
+      packages.push(transformPackage(record));
+    } else {
+      quarantined.push({
+        jadwalId: issues[0]?.jadwalId ?? `#${index}`,
+        reasons: issues
+          .filter(issue => issue.severity === 'error')
+          .map(issue => `${issue.field}: ${issue.message}`),
+        raw: item,
+      });
+    }
+  });
+
+  if (warnings.length > 0 || quarantined.length > 0) {
+    console.warn(
+      `[getPackages] ${warnings.length} data warning(s), ${quarantined.length} package(s) quarantined`,
+      { warnings, quarantined }
+    );
+  }
+
+  return {
+    success: true,
+    packages,
+    totalRecords: data.iTotalDisplayRecords,
+    source,
+    fetchedAt,
+    warnings,
+    quarantined,
+  };
 }
 
 /**
  * Fetch Umroh packages from the Alhijaz API
+ *
+ * When a cached response exists for the year it is returned immediately
+ * and refreshed in the background; `onRevalidate` receives the fresh data.
  * 
  * @example
  * ```typescript
- * const result = await getPackages();
+ * const result = await getPackages({
+ *   onRevalidate: (fresh) => setPackages(fresh.packages),
+ * });
  * if (result.success) {
  *   console.log(`Found ${result.packages.length} packages`);
  * }
@@ -137,46 +361,38 @@ export async function getPackages(
     yearCode = DEFAULT_YEAR_CODE,
     timeout = 10000,
     fetchOptions = {},
+    useCache = true,
+    onRevalidate,
+    baseUrl,
   } = options;
 
-  const url = `${API_BASE_URL}/${yearCode}`;
+  const cached = useCache ? await readCachedPackages(yearCode) : null;
+
+  if (cached) {
+    // Stale-while-revalidate: serve cache now, refresh in the background
+    fetchApiResponse(yearCode, timeout, fetchOptions, baseUrl)
+      .then(async (data) => {
+        const fetchedAt = Date.now();
+        await writeCachedPackages(yearCode, data, fetchedAt);
+        onRevalidate?.(buildResult(data, 'network', fetchedAt));
+      })
+      .catch((error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn('[getPackages] Background refresh failed, keeping cached data:', errorMessage);
+      });
+
+    return buildResult(cached.response, 'cache', cached.savedAt);
+  }
 
   try {
-    // Create abort controller for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const data = await fetchApiResponse(yearCode, timeout, fetchOptions, baseUrl);
+    const fetchedAt = Date.now();
 
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-        ...fetchOptions.headers,
-      },
-      signal: controller.signal,
-      ...fetchOptions,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    if (useCache) {
+      await writeCachedPackages(yearCode, data, fetchedAt);
     }
 
-    const data: ApiResponse = await response.json();
-
-    if (data.status !== 'ok') {
-      throw new Error('API returned error status');
-    }
-
-    // Transform raw data to typed packages
-    const packages = data.aaData.map(transformPackage);
-
-    return {
-      success: true,
-      packages,
-      totalRecords: data.iTotalDisplayRecords,
-    };
+    return buildResult(data, 'network', fetchedAt);
   } catch (error) {
     const errorMessage = error instanceof Error 
       ? error.message 
@@ -188,7 +404,12 @@ export async function getPackages(
       success: false,
       packages: [],
       totalRecords: 0,
+      source: 'network',
+      fetchedAt: null,
       error: errorMessage,
+      errorCode: toErrorCode(error),
+      warnings: [],
+      quarantined: [],
     };
   }
 }
@@ -248,29 +469,25 @@ export function filterAvailable(packages: UmrohPackage[]): UmrohPackage[] {
 }
 
 /**
- * Get minimum price from a package (Double room, lowest tier)
+ * Get the starting ("mulai") price of a package
+ * @see getStartingPrice for the shared rule
  */
 export function getMinimumPrice(pkg: UmrohPackage): number | null {
-  let minPrice: number | null = null;
-
-  for (const tierPricing of Object.values(pkg.harga)) {
-    const prices = [
-      tierPricing.Quard, // Note: The API/Type uses 'Quard' instead of 'Quad'
-      tierPricing.Triple,
-      tierPricing.Double
-    ];
-
-    for (const priceStr of prices) {
-      if (priceStr) {
-        const price = parseInt(priceStr, 10);
-        if (price > 0 && (minPrice === null || price < minPrice)) {
-          minPrice = price;
-        }
-      }
-    }
-  }
+  return getStartingPrice(pkg)?.price ?? null;
+}
 
-  return minPrice;
+/**
+ * Find the stay for a city key (e.g. "mekkah") in a list of stays
+ */
+export function findStay(stays: HotelStay[], cityKey: string): HotelStay | undefined {
+  return stays.find(stay => stay.cityKey === cityKey);
+}
+
+/**
+ * Stays outside Mekkah/Madinah (plus/transit destinations), in itinerary order
+ */
+export function getExtraStays(stays: HotelStay[]): HotelStay[] {
+  return stays.filter(stay => !(HARAM_CITY_KEYS as readonly string[]).includes(stay.cityKey));
 }
 
 /**
@@ -310,9 +527,5 @@ export function sortByDepartureDate(packages: UmrohPackage[]): UmrohPackage[] {
  * Sort packages by minimum price (ascending)
  */
 export function sortByPrice(packages: UmrohPackage[]): UmrohPackage[] {
-  return [...packages].sort((a, b) => {
-    const priceA = getMinimumPrice(a) || Infinity;
-    const priceB = getMinimumPrice(b) || Infinity;
-    return priceA - priceB;
-  });
+  return [...packages].sort(compareByStartingPrice);
 }
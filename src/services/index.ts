@@ -2,3 +2,6 @@
  * Barrel export for services
  */
 export * from './data-service';
+export * from './package-cache';
+export * from './package-validation';
+export * from './agent-service';
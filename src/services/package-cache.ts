@@ -0,0 +1,112 @@
+/**
+ * Offline Package Cache
+ * Keeps the last good API response per Hijri year in IndexedDB so the
+ * schedule can be shown instantly (and offline) before the network answers.
+ */
+
+import type { ApiResponse } from '../types/umroh-package';
+
+// ============================================
+// Constants
+// ============================================
+
+const DB_NAME = 'alhijaz-jadwal';
+const DB_VERSION = 1;
+const STORE_NAME = 'packages';
+
+// ============================================
+// Types
+// ============================================
+
+export interface CachedPackages {
+  /** Hijri year code (store key) */
+  yearCode: string;
+  /** Raw API response, transformed again on read so model changes apply */
+  response: ApiResponse;
+  /** When the response was fetched from the network (epoch ms) */
+  savedAt: number;
+}
+
+// ============================================
+// IndexedDB Helpers
+// ============================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'yearCode' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry on the next call if opening failed (e.g. private mode)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+function runRequest<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Read the cached response for a Hijri year
+ * Returns null when nothing is cached or IndexedDB is unavailable
+ */
+export async function readCachedPackages(yearCode: string): Promise<CachedPackages | null> {
+  try {
+    const entry = await runRequest<CachedPackages | undefined>(
+      'readonly',
+      store => store.get(yearCode)
+    );
+    return entry ?? null;
+  } catch (error) {
+    console.warn('[package-cache] Read failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Store the latest good response for a Hijri year
+ */
+export async function writeCachedPackages(
+  yearCode: string,
+  response: ApiResponse,
+  savedAt: number = Date.now()
+): Promise<void> {
+  try {
+    const entry: CachedPackages = { yearCode, response, savedAt };
+    await runRequest('readwrite', store => store.put(entry));
+  } catch (error) {
+    console.warn('[package-cache] Write failed:', error);
+  }
+}
@@ -0,0 +1,379 @@
+/**
+ * Runtime Validation for Raw API Packages
+ * Coerces and normalizes UmrohPackageRaw records before they are transformed,
+ * collecting per-record issues instead of failing silently.
+ *
+ * - warning: value was missing or malformed and has been defaulted/dropped
+ * - error: record is unusable and must be quarantined (not shown)
+ */
+
+import type { RawHotelInfo, RoomPricing, RoomType, UmrohPackageRaw } from '../types/umroh-package';
+import { ROOM_TYPES } from '../utils/pricing';
+
+// ============================================
+// Types
+// ============================================
+
+export type PackageIssueSeverity = 'warning' | 'error';
+
+export interface PackageIssue {
+  /** Package ID (or "#<index>" when the ID itself is missing) */
+  jadwalId: string;
+  /** Raw field name (e.g. "seat_sisa", "paket_hotel.HEMAT.mekkah_bintang") */
+  field: string;
+  severity: PackageIssueSeverity;
+  message: string;
+}
+
+export interface PackageValidationResult {
+  /** Normalized record, or null when it has to be quarantined */
+  record: UmrohPackageRaw | null;
+  /** All issues found in this record */
+  issues: PackageIssue[];
+}
+
+export interface QuarantinedPackage {
+  /** Package ID (or "#<index>" when missing) */
+  jadwalId: string;
+  /** Reasons the record was rejected */
+  reasons: string[];
+  /** Original record as received from the API */
+  raw: unknown;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Hotel keys are "<city>_hotel", "<city>_bintang" or "<city>_jarak" */
+const HOTEL_KEY_PATTERN = /^([a-z][a-z0-9_]*?)_(hotel|bintang|jarak)$/;
+
+/** Placeholder dates the backend uses for "not set" */
+const EMPTY_DATES = ['', '0000-00-00', '0000-00-00 00:00:00'];
+
+// ============================================
+// Coercion Helpers
+// ============================================
+
+function asString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return '';
+}
+
+/**
+ * Parse an integer from strings like "45", " 45 ", "Rp 35.900.000", "35900000.00"
+ * Returns null when no number can be read
+ */
+export function coerceInteger(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? Math.round(value) : null;
+  }
+  const text = asString(value);
+  if (!text) return null;
+
+  // Drop a decimal fraction ("35900000.00"), then currency text and
+  // thousand separators ("35.900.000")
+  const digits = text
+    .replace(/[.,]\d{1,2}$/, '')
+    .replace(/[^\d-]/g, '');
+  if (!/^-?\d+$/.test(digits)) return null;
+
+  const num = parseInt(digits, 10);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Normalize a date to YYYY-MM-DD
+ * Accepts YYYY-MM-DD, YYYY/MM/DD, DD-MM-YYYY, DD/MM/YYYY (time part ignored)
+ * Returns '' for the backend's "not set" placeholders, null when unparsable
+ */
+export function normalizeDate(value: unknown): string | null {
+  const text = asString(value);
+  if (EMPTY_DATES.includes(text)) return '';
+
+  const datePart = text.split(/[ T]/)[0];
+  let year: number, month: number, day: number;
+
+  let match = datePart.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    match = datePart.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
+    if (!match) return null;
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  }
+
+  // Reject impossible dates like 2026-02-31
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Read hours and minutes from "09.30", "9:30", "0930" or "09:30:00"
+ */
+function parseTime(value: unknown): { hours: number; minutes: number; seconds: number } | null {
+  const text = asString(value);
+  const match = text.match(/^(\d{1,2})[.:]?(\d{2})(?:[.:](\d{2}))?$/);
+  if (!match) return null;
+
+  const [hours, minutes, seconds] = [Number(match[1]), Number(match[2]), Number(match[3] || 0)];
+  if (hours > 24 || minutes > 59 || seconds > 59) return null;
+  return { hours, minutes, seconds };
+}
+
+/**
+ * Normalize a flight time to the API's "HH.MM" format
+ */
+export function normalizeFlightTime(value: unknown): string | null {
+  const time = parseTime(value);
+  if (!time) return null;
+  return `${String(time.hours).padStart(2, '0')}.${String(time.minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Normalize a manasik time to the API's "HH:MM:SS" format
+ */
+export function normalizeClockTime(value: unknown): string | null {
+  const time = parseTime(value);
+  if (!time) return null;
+  return [time.hours, time.minutes, time.seconds]
+    .map(part => String(part).padStart(2, '0'))
+    .join(':');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validate and normalize one raw API record
+ */
+export function validatePackageRaw(input: unknown, index: number): PackageValidationResult {
+  const issues: PackageIssue[] = [];
+  const data = isPlainObject(input) ? input : {};
+  const jadwalId = asString(data.jadwal_id) || `#${index}`;
+
+  const warn = (field: string, message: string) =>
+    issues.push({ jadwalId, field, severity: 'warning', message });
+  const fail = (field: string, message: string) =>
+    issues.push({ jadwalId, field, severity: 'error', message });
+
+  if (!isPlainObject(input)) {
+    fail('*', 'Record is not an object');
+    return { record: null, issues };
+  }
+
+  // ---- Basic Info ----
+  if (!asString(data.jadwal_id)) {
+    fail('jadwal_id', 'Missing package ID');
+  }
+
+  let nama = asString(data.jadwal_nama);
+  if (!nama) {
+    warn('jadwal_nama', 'Missing package name, using ID');
+    nama = jadwalId;
+  }
+
+  const promo = asString(data.promo);
+  if (promo !== '' && promo !== '0' && promo !== '1') {
+    warn('promo', `Unexpected promo flag "${promo}", treated as non-promo`);
+  }
+
+  // ---- Seats ----
+  const readSeats = (field: 'seat_total' | 'seat_sisa'): number => {
+    const seats = coerceInteger(data[field]);
+    if (seats === null) {
+      warn(field, `Invalid seat count "${asString(data[field])}", using 0`);
+      return 0;
+    }
+    if (seats < 0) {
+      warn(field, `Negative seat count ${seats}, using 0`);
+      return 0;
+    }
+    return seats;
+  };
+  const seatTotal = readSeats('seat_total');
+  const seatSisa = readSeats('seat_sisa');
+  if (seatSisa > seatTotal) {
+    warn('seat_sisa', `Remaining seats (${seatSisa}) exceed total seats (${seatTotal})`);
+  }
+
+  // ---- Flights ----
+  const readRequiredDate = (field: 'berangkat_tgl' | 'pulang_tgl'): string => {
+    const date = normalizeDate(data[field]);
+    if (!date) {
+      fail(field, `Invalid date "${asString(data[field])}"`);
+      return '';
+    }
+    return date;
+  };
+  const berangkatTgl = readRequiredDate('berangkat_tgl');
+  const pulangTgl = readRequiredDate('pulang_tgl');
+  if (berangkatTgl && pulangTgl && pulangTgl < berangkatTgl) {
+    fail('pulang_tgl', `Return date ${pulangTgl} is before departure date ${berangkatTgl}`);
+  }
+
+  const readFlightTime = (field: 'berangkat_jam' | 'pulang_jam'): string => {
+    const raw = asString(data[field]);
+    const time = normalizeFlightTime(raw);
+    if (time === null) {
+      if (raw) warn(field, `Invalid time "${raw}"`);
+      else warn(field, 'Missing time');
+      return '';
+    }
+    return time;
+  };
+
+  const readText = (field: keyof UmrohPackageRaw, required = true): string => {
+    const text = asString(data[field]);
+    if (!text && required) warn(field, 'Missing value');
+    return text;
+  };
+
+  // ---- Manasik (optional) ----
+  let manasikTgl = normalizeDate(data.manasik_tgl);
+  if (manasikTgl === null) {
+    warn('manasik_tgl', `Invalid date "${asString(data.manasik_tgl)}", treated as not scheduled`);
+    manasikTgl = '';
+  }
+  let manasikJam = '';
+  if (asString(data.manasik_jam)) {
+    manasikJam = normalizeClockTime(data.manasik_jam) ?? '';
+    if (!manasikJam) warn('manasik_jam', `Invalid time "${asString(data.manasik_jam)}"`);
+  }
+
+  // ---- Pricing ----
+  const perlengkapan = coerceInteger(data.perlengkapan_harga);
+  if (perlengkapan === null && asString(data.perlengkapan_harga)) {
+    warn('perlengkapan_harga', `Invalid price "${asString(data.perlengkapan_harga)}", using 0`);
+  }
+
+  const paketHarga: Record<string, RoomPricing> = {};
+  if (!isPlainObject(data.paket_harga)) {
+    warn('paket_harga', 'Missing price tiers');
+  } else {
+    for (const [tier, rawPricing] of Object.entries(data.paket_harga)) {
+      if (!isPlainObject(rawPricing)) {
+        warn(`paket_harga.${tier}`, 'Tier pricing is not an object, skipped');
+        continue;
+      }
+
+      const pricing: RoomPricing = {};
+      for (const [roomType, rawPrice] of Object.entries(rawPricing)) {
+        const field = `paket_harga.${tier}.${roomType}`;
+        if (!ROOM_TYPES.includes(roomType as RoomType)) {
+          warn(field, `Unknown room type "${roomType}", ignored`);
+          continue;
+        }
+        // Empty / zero means the room type is not offered
+        if (asString(rawPrice) === '') continue;
+        const price = coerceInteger(rawPrice);
+        if (price === null || price < 0) {
+          warn(field, `Invalid price "${asString(rawPrice)}", ignored`);
+          continue;
+        }
+        if (price === 0) continue;
+        pricing[roomType as RoomType] = String(price);
+      }
+      paketHarga[tier] = pricing;
+    }
+
+    const hasAnyPrice = Object.values(paketHarga).some(p => Object.keys(p).length > 0);
+    if (!hasAnyPrice) {
+      warn('paket_harga', 'No valid prices in any tier');
+    }
+  }
+
+  // ---- Hotels ----
+  const paketHotel: Record<string, RawHotelInfo> = {};
+  if (!isPlainObject(data.paket_hotel)) {
+    warn('paket_hotel', 'Missing hotel tiers');
+  } else {
+    for (const [tier, rawHotel] of Object.entries(data.paket_hotel)) {
+      if (!isPlainObject(rawHotel)) {
+        warn(`paket_hotel.${tier}`, 'Tier hotels is not an object, skipped');
+        continue;
+      }
+
+      const hotel: RawHotelInfo = {};
+      for (const [key, rawValue] of Object.entries(rawHotel)) {
+        const field = `paket_hotel.${tier}.${key}`;
+        const match = key.toLowerCase().match(HOTEL_KEY_PATTERN);
+        if (!match) {
+          warn(field, `Unrecognized hotel key "${key}", ignored`);
+          continue;
+        }
+
+        const kind = match[2];
+        if (kind === 'bintang') {
+          if (asString(rawValue) === '') {
+            hotel[key.toLowerCase()] = '';
+            continue;
+          }
+          const stars = coerceInteger(rawValue);
+          if (stars === null || stars < 0 || stars > 7) {
+            warn(field, `Invalid star rating "${asString(rawValue)}"`);
+            hotel[key.toLowerCase()] = '';
+          } else {
+            hotel[key.toLowerCase()] = String(stars);
+          }
+          continue;
+        }
+
+        hotel[key.toLowerCase()] = asString(rawValue);
+      }
+      paketHotel[tier] = hotel;
+    }
+
+    for (const tier of Object.keys(paketHarga)) {
+      if (!paketHotel[tier]) {
+        warn(`paket_hotel.${tier}`, `No hotels for price tier "${tier}"`);
+      }
+    }
+  }
+
+  if (issues.some(issue => issue.severity === 'error')) {
+    return { record: null, issues };
+  }
+
+  return {
+    record: {
+      jadwal_id: jadwalId,
+      jadwal_nama: nama,
+      promo: promo === '1' ? '1' : '0',
+      seat_total: String(seatTotal),
+      seat_sisa: String(seatSisa),
+      maskapai: readText('maskapai').toUpperCase(),
+      berangkat_tgl: berangkatTgl,
+      berangkat_jam: readFlightTime('berangkat_jam'),
+      berangkat_rute: readText('berangkat_rute'),
+      berangkat_kode_penerbangan: readText('berangkat_kode_penerbangan'),
+      pulang_tgl: pulangTgl,
+      pulang_jam: readFlightTime('pulang_jam'),
+      pulang_rute: readText('pulang_rute'),
+      pulang_kode_penerbangan: readText('pulang_kode_penerbangan'),
+      manasik_tgl: manasikTgl,
+      manasik_jam: manasikJam,
+      brosur: readText('brosur', false),
+      itinerary: readText('itinerary', false),
+      perlengkapan_harga: String(perlengkapan ?? 0),
+      paket_harga: paketHarga,
+      paket_hotel: paketHotel,
+    },
+    issues,
+  };
+}
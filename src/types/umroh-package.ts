@@ -29,54 +29,49 @@ export interface RoomPricing {
  */
 export type PackagePricing = Record<string, RoomPricing>;
 
+/**
+ * Normalized price matrix: tier × room type → price in Rupiah
+ * null when the room type is not offered in that tier
+ */
+export type PriceMatrix = Record<string, Record<RoomType, number | null>>;
+
 // ============================================
 // Hotel Types
 // ============================================
 
 /**
- * Base hotel information for Saudi Arabia cities
+ * Raw hotel information for one tier, as received from the API
+ * Keys follow "<city>_hotel", "<city>_bintang" (star rating) and
+ * "<city>_jarak" (distance to the Haram), e.g.:
+ * - mekkah_hotel, mekkah_bintang, mekkah_jarak
+ * - madinah_hotel, madinah_bintang, madinah_jarak
+ * - istanbul_hotel, cairo_hotel, aqsha_hotel, ... (plus/transit destinations)
  */
-export interface SaudiHotelInfo {
-  mekkah_hotel: string;
-  mekkah_bintang: string; // Star rating (e.g., "4", "5")
-  mekkah_jarak?: string;  // Distance to Masjidil Haram (e.g., "100m", "300m")
-  madinah_hotel: string;
-  madinah_bintang: string;
-  madinah_jarak?: string; // Distance to Masjid Nabawi
-}
+export type RawHotelInfo = Record<string, string>;
 
 /**
- * Hotel info for packages with Cairo extension
+ * One hotel stay in a package itinerary
  */
-export interface CairoHotelInfo extends SaudiHotelInfo {
-  cairo_hotel: string;
-  cairo_bintang: string;
+export interface HotelStay {
+  /** City key from the API (e.g. "mekkah", "istanbul") */
+  cityKey: string;
+  /** Display city name (e.g. "Mekkah", "Istanbul") */
+  city: string;
+  /** Hotel name */
+  hotelName: string;
+  /** Star rating (null when unknown) */
+  stars: number | null;
+  /** Distance to Masjidil Haram / Masjid Nabawi as given by the API (e.g. "100m") */
+  distanceToHaram: string | null;
+  /** distanceToHaram in meters (null when it can't be read) */
+  distanceMeters: number | null;
 }
 
-/**
- * Hotel info for packages with Turkey extension
- */
-export interface TurkeyHotelInfo extends SaudiHotelInfo {
-  bursa_hotel?: string;
-  bursa_bintang?: string;
-  istanbul_hotel?: string;
-  istanbul_bintang?: string;
-  cappadocia_hotel?: string;
-  cappadocia_bintang?: string;
-  ankara_hotel?: string;
-  ankara_bintang?: string;
-}
-
-/**
- * Union type for all possible hotel configurations
- */
-export type HotelInfo = SaudiHotelInfo | CairoHotelInfo | TurkeyHotelInfo;
-
 /**
  * Package hotel tiers (e.g., HEMAT, UHUD, RAHMAH)
- * Key is the tier name, value is the hotel information
+ * Key is the tier name, value is the ordered list of hotel stays
  */
-export type PackageHotels = Record<string, HotelInfo>;
+export type PackageHotels = Record<string, HotelStay[]>;
 
 // ============================================
 // Flight Types
@@ -140,11 +135,13 @@ export interface UmrohPackage {
   // ---- Pricing ----
   /** Equipment/perlengkapan price (usually "0") */
   perlengkapanHarga: string;
-  /** Package pricing by tier (e.g., HEMAT, UHUD, RAHMAH) */
+  /** Package pricing by tier (e.g., HEMAT, UHUD, RAHMAH), as sent by the API */
   harga: PackagePricing;
+  /** Numeric prices by tier and room type (use this for math and sorting) */
+  priceMatrix: PriceMatrix;
 
   // ---- Hotels ----
-  /** Hotel information by tier */
+  /** Hotel stays by tier (in API order) */
   hotel: PackageHotels;
 }
 
@@ -176,7 +173,7 @@ export interface UmrohPackageRaw {
   itinerary: string;
   perlengkapan_harga: string;
   paket_harga: Record<string, RoomPricing>;
-  paket_hotel: Record<string, Record<string, string>>;
+  paket_hotel: Record<string, RawHotelInfo>;
 }
 
 /**
@@ -188,6 +185,44 @@ export interface ApiResponse {
   aaData: UmrohPackageRaw[];
 }
 
+/**
+ * Error codes returned by the /api Functions
+ * - INVALID_YEAR: Year code is not a 4-digit Hijri year
+ * - NOT_FOUND: Unknown API path or agent
+ * - METHOD_NOT_ALLOWED: Method not supported by the endpoint
+ * - UPSTREAM_UNAVAILABLE: jadwal.miqot.com unreachable or timed out
+ * - UPSTREAM_ERROR: jadwal.miqot.com answered with a non-2xx status
+ * - UPSTREAM_INVALID: jadwal.miqot.com answered with unusable data
+ * - UNAUTHORIZED: Missing or wrong admin token (agent admin API)
+ * - INVALID_INPUT: Agent fields or photo failed validation
+ * - CONFLICT: Agent slug already taken
+ * - STORAGE_UNAVAILABLE: KV/R2 binding or ADMIN_TOKEN not configured
+ */
+export type ApiErrorCode =
+  | 'INVALID_YEAR'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_INVALID'
+  | 'UNAUTHORIZED'
+  | 'INVALID_INPUT'
+  | 'CONFLICT'
+  | 'STORAGE_UNAVAILABLE';
+
+/**
+ * JSON error envelope returned by the /api Functions
+ */
+export interface ApiErrorEnvelope {
+  status: 'error';
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    /** HTTP status from jadwal.miqot.com, when it answered */
+    upstreamStatus?: number;
+  };
+}
+
 // ============================================
 // Utility Types
 // ============================================
@@ -0,0 +1,163 @@
+/**
+ * Agent Identity
+ * One agent model for every share and contact surface, fed by two sources:
+ *
+ * - link:  agent resolved from the URL slug (/bagas), registered by Alhijaz
+ * - local: profile a freelance agent saved on this device (FilterHeader form)
+ *
+ * Precedence: a link agent always wins. A customer opening /bagas on a
+ * device where someone saved a local profile must still see Bagas, and the
+ * profile editor is hidden on agent links for the same reason.
+ */
+
+import { normalizePhone, type AgentData } from '../data/agents';
+import { isShareFormat, type ShareFormat } from './share-message';
+
+// ============================================
+// Types
+// ============================================
+
+export type AgentSource = 'link' | 'local';
+
+export interface AgentIdentity extends AgentData {
+  source: AgentSource;
+  /** URL slug (link agents only) */
+  slug?: string;
+}
+
+/** Local profile as stored (photo is an optional data URL) */
+export interface LocalAgentProfile {
+  name: string;
+  phone: string;
+  website: string;
+  photo?: string;
+  shareFormat?: ShareFormat;
+  shareTemplate?: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const LOCAL_AGENT_STORAGE_KEY = 'agentProfile';
+
+/** Local photos are downscaled to this square size (keeps localStorage small) */
+const LOCAL_PHOTO_SIZE = 160;
+
+// ============================================
+// Local Profile Storage
+// ============================================
+
+/**
+ * Saved local profile, null when missing or invalid
+ */
+export function loadLocalAgentProfile(): LocalAgentProfile | null {
+  try {
+    const saved = localStorage.getItem(LOCAL_AGENT_STORAGE_KEY);
+    if (!saved) return null;
+
+    const parsed = JSON.parse(saved) as Partial<LocalAgentProfile>;
+    if (!parsed || typeof parsed.name !== 'string' || typeof parsed.phone !== 'string') return null;
+
+    return {
+      name: parsed.name,
+      phone: parsed.phone,
+      website: typeof parsed.website === 'string' ? parsed.website : '',
+      ...(typeof parsed.photo === 'string' && parsed.photo ? { photo: parsed.photo } : {}),
+      ...(isShareFormat(parsed.shareFormat) ? { shareFormat: parsed.shareFormat } : {}),
+      ...(typeof parsed.shareTemplate === 'string' && parsed.shareTemplate ? { shareTemplate: parsed.shareTemplate } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveLocalAgentProfile(profile: LocalAgentProfile): void {
+  localStorage.setItem(LOCAL_AGENT_STORAGE_KEY, JSON.stringify(profile));
+}
+
+export function clearLocalAgentProfile(): void {
+  localStorage.removeItem(LOCAL_AGENT_STORAGE_KEY);
+}
+
+// ============================================
+// Resolution
+// ============================================
+
+/**
+ * Local profile as agent data (phone normalized for wa.me, website cleaned)
+ */
+export function toLocalAgent(profile: LocalAgentProfile | null): AgentData | null {
+  if (!profile || !profile.name.trim() || !profile.phone.trim()) return null;
+
+  return {
+    name: profile.name.trim(),
+    phone: normalizePhone(profile.phone),
+    website: profile.website.replace(/\s/g, '').replace(/^https?:\/\//, '').replace(/\/+$/, ''),
+    photo: profile.photo || '',
+    ...(profile.shareFormat ? { shareFormat: profile.shareFormat } : {}),
+    ...(profile.shareTemplate ? { shareTemplate: profile.shareTemplate } : {}),
+  };
+}
+
+/**
+ * Active agent identity (link agent first, then the local profile)
+ */
+export function resolveAgentIdentity(
+  linkAgent: AgentData | null,
+  linkSlug: string,
+  localAgent: AgentData | null
+): AgentIdentity | null {
+  if (linkAgent) return { ...linkAgent, source: 'link', slug: linkSlug };
+  if (localAgent) return { ...localAgent, source: 'local' };
+  return null;
+}
+
+// ============================================
+// Photo
+// ============================================
+
+/**
+ * Center-crop and downscale an image file to a small JPEG data URL
+ */
+export function readLocalAgentPhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      const side = Math.min(image.naturalWidth, image.naturalHeight);
+      const canvas = document.createElement('canvas');
+      canvas.width = LOCAL_PHOTO_SIZE;
+      canvas.height = LOCAL_PHOTO_SIZE;
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas not supported'));
+        return;
+      }
+
+      context.drawImage(
+        image,
+        (image.naturalWidth - side) / 2,
+        (image.naturalHeight - side) / 2,
+        side,
+        side,
+        0,
+        0,
+        LOCAL_PHOTO_SIZE,
+        LOCAL_PHOTO_SIZE
+      );
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/jpeg', 0.85));
+    };
+
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Invalid image file'));
+    };
+
+    image.src = url;
+  });
+}
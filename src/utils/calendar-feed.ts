@@ -0,0 +1,57 @@
+/**
+ * Calendar Feed Utilities
+ * Links and package selection of the subscribable iCal feed served by
+ * /ical (functions/ical). Agents subscribe once with a webcal:// link and
+ * their phone calendar keeps showing upcoming departures.
+ *
+ * Feed URL: /ical/{agentSlug}?y=1448&airline=SAUDIA&city=MED&promo=1
+ * The query is the list view's URL state (see url-state), so a feed shows
+ * the same packages as the list it was subscribed from.
+ */
+
+import type { UmrohPackage } from '../types/umroh-package';
+import { applyFilterSpec, type FilterSpec } from './filter-spec';
+import { serializeUrlState, type AppUrlState } from './url-state';
+
+// ============================================
+// Constants
+// ============================================
+
+export const CALENDAR_FEED_PATH = '/ical';
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Feed state of a list view: no opened card, always by departure date
+ */
+export function getCalendarFeedState(state: AppUrlState): AppUrlState {
+  return {
+    year: state.year,
+    filter: { ...state.filter, sort: 'date' },
+    expandedCardId: null,
+  };
+}
+
+/**
+ * webcal:// subscription link, on the agent's feed when a slug is given
+ * (e.g. webcal://host/ical/bagas?city=MED)
+ */
+export function buildCalendarFeedUrl(origin: string, slug: string, state: AppUrlState): string {
+  const path = slug ? `${CALENDAR_FEED_PATH}/${slug}` : CALENDAR_FEED_PATH;
+  return `${origin.replace(/^https?:/, 'webcal:')}${path}${serializeUrlState(getCalendarFeedState(state))}`;
+}
+
+/**
+ * Packages in the feed: filter applied, departures from `today` on
+ * ("YYYY-MM-DD"), soonest first
+ */
+export function filterCalendarFeedPackages(
+  packages: UmrohPackage[],
+  filter: FilterSpec,
+  today: string
+): UmrohPackage[] {
+  const upcoming = packages.filter(pkg => pkg.keberangkatan.tgl >= today);
+  return applyFilterSpec(upcoming, { ...filter, sort: 'date' });
+}
@@ -0,0 +1,344 @@
+/**
+ * Calendar Export (iCalendar / .ics)
+ * Manasik session, departure flight and return flight of a package as
+ * calendar events with reminders. Times are local to the airport the
+ * flight leaves from (Asia/Jakarta for CGK, Asia/Riyadh for JED/MED…), and
+ * each zone used gets its VTIMEZONE block so every calendar app places the
+ * events correctly.
+ *
+ * No DOM APIs here: the /ical feed Function builds its calendar with the
+ * same code.
+ */
+
+import type { UmrohPackage, FlightInfo } from '../types/umroh-package';
+import type { AgentData } from '../data/agents';
+import { formatHijriDate } from './hijri';
+
+// ============================================
+// Types
+// ============================================
+
+export type CalendarEventKind = 'manasik' | 'berangkat' | 'pulang';
+
+export interface CalendarOptions {
+  agent?: AgentData | null;
+  /** Link back to the package */
+  packageLink?: string;
+  /** Events to include (default: all) */
+  kinds?: CalendarEventKind[];
+  /** Add VALARM reminders (default: true) */
+  reminders?: boolean;
+}
+
+export interface CalendarMeta {
+  /** Calendar name shown by the calendar app */
+  name: string;
+  /** Suggested refresh interval for subscribed feeds */
+  refreshMinutes?: number;
+}
+
+interface TimeZoneInfo {
+  /** UTC offset, e.g. "+0700" (all zones used here have no DST) */
+  offset: string;
+  abbreviation: string;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  location?: string;
+  url?: string;
+  /** "YYYY-MM-DD" */
+  date: string;
+  /** "HH:MM" (all-day event when missing) */
+  time?: string;
+  timeZone: string;
+  durationMinutes: number;
+  /** Minutes before start */
+  reminders: number[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Fixed-offset zones of the airports in the schedule */
+const TIME_ZONES: Record<string, TimeZoneInfo> = {
+  'Asia/Jakarta': { offset: '+0700', abbreviation: 'WIB' },
+  'Asia/Makassar': { offset: '+0800', abbreviation: 'WITA' },
+  'Asia/Jayapura': { offset: '+0900', abbreviation: 'WIT' },
+  'Asia/Riyadh': { offset: '+0300', abbreviation: '+03' },
+  'Asia/Dubai': { offset: '+0400', abbreviation: '+04' },
+  'Europe/Istanbul': { offset: '+0300', abbreviation: '+03' },
+};
+
+/** Airport code → time zone */
+const AIRPORT_TIME_ZONES: Record<string, string> = {
+  CGK: 'Asia/Jakarta',
+  HLP: 'Asia/Jakarta',
+  SUB: 'Asia/Jakarta',
+  KNO: 'Asia/Jakarta',
+  PDG: 'Asia/Jakarta',
+  PLM: 'Asia/Jakarta',
+  SOC: 'Asia/Jakarta',
+  YIA: 'Asia/Jakarta',
+  BTH: 'Asia/Jakarta',
+  UPG: 'Asia/Makassar',
+  BPN: 'Asia/Makassar',
+  DPS: 'Asia/Makassar',
+  LOP: 'Asia/Makassar',
+  DJJ: 'Asia/Jayapura',
+  JED: 'Asia/Riyadh',
+  MED: 'Asia/Riyadh',
+  RUH: 'Asia/Riyadh',
+  TIF: 'Asia/Riyadh',
+  DXB: 'Asia/Dubai',
+  AUH: 'Asia/Dubai',
+  IST: 'Europe/Istanbul',
+  SAW: 'Europe/Istanbul',
+};
+
+/** Manasik is held at the Jakarta office */
+const MANASIK_TIME_ZONE = 'Asia/Jakarta';
+const MANASIK_DURATION_MINUTES = 180;
+
+/** Flight blocks the departure slot; arrival times aren't in the data */
+const FLIGHT_DURATION_MINUTES = 60;
+
+const PRODUCT_ID = '-//Alhijaz Indowisata//Jadwal Umroh//ID';
+
+const ALL_EVENT_KINDS: CalendarEventKind[] = ['manasik', 'berangkat', 'pulang'];
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Route endpoints ("CGK - JED" → ["CGK", "JED"])
+ */
+function parseRoute(route: string): string[] {
+  return route.split(/\s*[-–>]+\s*/).map(code => code.trim().toUpperCase()).filter(Boolean);
+}
+
+/**
+ * Departure airport's time zone (fallback: Jakarta for outbound, Riyadh for return)
+ */
+export function getFlightTimeZone(flight: FlightInfo, fallback: string): string {
+  const origin = parseRoute(flight.rute)[0];
+  return (origin && AIRPORT_TIME_ZONES[origin]) || fallback;
+}
+
+/** "10.30" / "10:30:00" → "10:30" (null when not a time) */
+function parseClock(value: string): string | null {
+  const match = /^(\d{1,2})[.:](\d{2})/.exec(value || '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  if (hours > 23) return null;
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+}
+
+function isIsoDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value || '');
+}
+
+/** Escape TEXT values (RFC 5545 §3.3.11) */
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets (continuation lines start with a space)
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatLocalDateTime(date: string, time: string): string {
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+}
+
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function buildTimeZone(tzid: string): string[] {
+  const { offset, abbreviation } = TIME_ZONES[tzid];
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${tzid}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${offset}`,
+    `TZOFFSETTO:${offset}`,
+    `TZNAME:${abbreviation}`,
+    'END:STANDARD',
+    'END:VTIMEZONE',
+  ];
+}
+
+function buildEvent(event: CalendarEvent, stamp: string): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.time) {
+    lines.push(
+      `DTSTART;TZID=${event.timeZone}:${formatLocalDateTime(event.date, event.time)}`,
+      `DURATION:PT${event.durationMinutes}M`,
+    );
+  } else {
+    lines.push(
+      `DTSTART;VALUE=DATE:${event.date.replace(/-/g, '')}`,
+      `DTEND;VALUE=DATE:${nextDay(event.date)}`,
+    );
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`, `DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+
+  for (const minutes of event.reminders) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      `TRIGGER:-PT${minutes}M`,
+      'END:VALARM',
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+function buildFlightEvent(
+  pkg: UmrohPackage,
+  flight: FlightInfo,
+  kind: 'berangkat' | 'pulang',
+  footer: string,
+  packageLink?: string
+): CalendarEvent | null {
+  if (!isIsoDate(flight.tgl)) return null;
+
+  const label = kind === 'berangkat' ? 'Keberangkatan Umroh' : 'Kepulangan Umroh';
+  const airports = parseRoute(flight.rute);
+  const route = airports.join(' → ');
+  const time = parseClock(flight.jam) ?? undefined;
+
+  return {
+    uid: `${pkg.jadwalId}-${kind}@alhijaz-indowisata`,
+    summary: `${label} · ${[flight.kodePenerbangan, route].filter(Boolean).join(' ')}`,
+    description: [
+      `${pkg.nama} (${pkg.jadwalId})`,
+      `Maskapai: ${pkg.maskapai || '-'}`,
+      `Penerbangan: ${flight.kodePenerbangan || '-'}`,
+      `Rute: ${route || '-'}`,
+      `Tanggal Hijriah: ${formatHijriDate(flight.tgl) || '-'}`,
+      time ? `Jam berangkat: ${time} (waktu setempat)` : 'Jam berangkat: menyusul',
+    ].join('\n') + footer,
+    location: airports[0] ? `Bandara ${airports[0]}` : undefined,
+    url: packageLink,
+    date: flight.tgl,
+    time,
+    timeZone: getFlightTimeZone(flight, kind === 'berangkat' ? 'Asia/Jakarta' : 'Asia/Riyadh'),
+    durationMinutes: FLIGHT_DURATION_MINUTES,
+    // Day before (packing, documents), and check-in time on the day
+    reminders: time ? [24 * 60, 4 * 60] : [12 * 60],
+  };
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Calendar events of a package (manasik, departure, return; skipped when
+ * the date is missing)
+ */
+export function buildPackageEvents(pkg: UmrohPackage, options: CalendarOptions = {}): CalendarEvent[] {
+  const { agent, packageLink, kinds = ALL_EVENT_KINDS, reminders = true } = options;
+  const footerLines: string[] = [];
+  if (agent) footerLines.push(`Info: ${agent.name} (wa.me/${agent.phone})`);
+  if (packageLink) footerLines.push(packageLink);
+  const footer = footerLines.length > 0 ? `\n\n${footerLines.join('\n')}` : '';
+
+  const events: CalendarEvent[] = [];
+
+  if (kinds.includes('manasik') && isIsoDate(pkg.manasikTanggal)) {
+    const time = parseClock(pkg.manasikJam) ?? undefined;
+    events.push({
+      uid: `${pkg.jadwalId}-manasik@alhijaz-indowisata`,
+      summary: `Manasik Umroh · ${pkg.nama}`,
+      description: `Manasik untuk ${pkg.nama} (${pkg.jadwalId})${time ? '' : '\nJam manasik: menyusul'}${footer}`,
+      url: packageLink,
+      date: pkg.manasikTanggal,
+      time,
+      timeZone: MANASIK_TIME_ZONE,
+      durationMinutes: MANASIK_DURATION_MINUTES,
+      reminders: time ? [24 * 60, 2 * 60] : [12 * 60],
+    });
+  }
+
+  for (const kind of ['berangkat', 'pulang'] as const) {
+    if (!kinds.includes(kind)) continue;
+    const flight = kind === 'berangkat' ? pkg.keberangkatan : pkg.kepulangan;
+    const event = buildFlightEvent(pkg, flight, kind, footer, packageLink);
+    if (event) events.push(event);
+  }
+
+  return reminders ? events : events.map(event => ({ ...event, reminders: [] }));
+}
+
+/**
+ * iCalendar file content for a list of events (CRLF line endings)
+ */
+export function buildCalendar(events: CalendarEvent[], meta: CalendarMeta): string {
+  const stamp = formatUtcStamp(new Date());
+  const zones = [...new Set(events.filter(event => event.time).map(event => event.timeZone))];
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(meta.name)}`,
+  ];
+  if (meta.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${meta.refreshMinutes}M`, `X-PUBLISHED-TTL:PT${meta.refreshMinutes}M`);
+  }
+  lines.push(
+    ...zones.flatMap(buildTimeZone),
+    ...events.flatMap(event => buildEvent(event, stamp)),
+    'END:VCALENDAR',
+  );
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * iCalendar file content for one package
+ */
+export function buildPackageCalendar(pkg: UmrohPackage, options: CalendarOptions = {}): string {
+  return buildCalendar(buildPackageEvents(pkg, options), { name: `Umroh ${pkg.nama}` });
+}
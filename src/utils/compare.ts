@@ -0,0 +1,165 @@
+/**
+ * Package Comparison Utilities
+ * Lines up 2–4 packages field by field for the comparison view and
+ * its WhatsApp text.
+ */
+
+import type { UmrohPackage, FlightInfo } from '../types/umroh-package';
+import { calculateDuration } from '../services/data-service';
+import { getLandingCity } from './filter-logic';
+import { ROOM_TYPES, ROOM_TYPE_LABELS, getStartingPrice } from './pricing';
+import { formatHijriDate } from './hijri';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ComparisonRow {
+  /** Stable key (e.g. "hotel:HEMAT:mekkah") */
+  key: string;
+  /** Section heading (e.g. "Penerbangan", "Hotel HEMAT") */
+  section: string;
+  /** Row label (e.g. "Berangkat", "Mekkah") */
+  label: string;
+  /** One display value per package, '-' when not available */
+  values: string[];
+  /** Whether the packages differ on this row */
+  isDifferent: boolean;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Packages that can be pinned for comparison */
+export const MIN_COMPARE_PACKAGES = 2;
+export const MAX_COMPARE_PACKAGES = 4;
+
+// ============================================
+// Helpers
+// ============================================
+
+const formatShortDate = (dateStr: string): string => {
+  if (!dateStr) return '-';
+  return new Date(dateStr).toLocaleDateString('id-ID', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+};
+
+const formatFlight = (flight: FlightInfo): string => {
+  const hijri = formatHijriDate(flight.tgl, 'short');
+  return `${formatShortDate(flight.tgl)}, ${flight.jam.replace('.', ':') || '-'}${hijri ? ` · ${hijri}` : ''}`;
+};
+
+const formatRupiah = (price: number | null | undefined): string =>
+  price ? `Rp ${new Intl.NumberFormat('id-ID').format(price)}` : '-';
+
+/**
+ * Unique values in first-seen order
+ */
+function unique<T>(items: T[]): T[] {
+  return Array.from(new Set(items));
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Build comparison rows for the given packages
+ * Tiers and hotel cities are the union across packages, so a tier or
+ * destination only one package has still gets a row ('-' for the rest)
+ */
+export function buildComparisonRows(packages: UmrohPackage[]): ComparisonRow[] {
+  const rows: ComparisonRow[] = [];
+
+  const addRow = (key: string, section: string, label: string, values: string[]) => {
+    rows.push({
+      key,
+      section,
+      label,
+      values,
+      isDifferent: new Set(values).size > 1,
+    });
+  };
+
+  // ---- Flights ----
+  addRow('maskapai', 'Penerbangan', 'Maskapai', packages.map(p => p.maskapai || '-'));
+  addRow('berangkat', 'Penerbangan', 'Berangkat', packages.map(p => formatFlight(p.keberangkatan)));
+  addRow('berangkat-rute', 'Penerbangan', 'Rute Berangkat', packages.map(p =>
+    `${p.keberangkatan.kodePenerbangan || '-'} • ${p.keberangkatan.rute || '-'}`
+  ));
+  addRow('pulang', 'Penerbangan', 'Pulang', packages.map(p => formatFlight(p.kepulangan)));
+  addRow('pulang-rute', 'Penerbangan', 'Rute Pulang', packages.map(p =>
+    `${p.kepulangan.kodePenerbangan || '-'} • ${p.kepulangan.rute || '-'}`
+  ));
+  addRow('landing', 'Penerbangan', 'Landing', packages.map(p => getLandingCity(p).name));
+  addRow('durasi', 'Penerbangan', 'Durasi', packages.map(p => `${calculateDuration(p)} hari`));
+
+  // ---- Hotels per tier ----
+  const tiers = unique(packages.flatMap(p => Object.keys(p.priceMatrix)));
+
+  for (const tier of tiers) {
+    const cityKeys = unique(packages.flatMap(p => (p.hotel[tier] || []).map(stay => stay.cityKey)));
+
+    for (const cityKey of cityKeys) {
+      const label = packages
+        .flatMap(p => p.hotel[tier] || [])
+        .find(stay => stay.cityKey === cityKey)?.city ?? cityKey;
+
+      addRow(`hotel:${tier}:${cityKey}`, `Hotel ${tier}`, label, packages.map(p => {
+        const stay = (p.hotel[tier] || []).find(s => s.cityKey === cityKey);
+        if (!stay) return '-';
+        return stay.stars ? `${stay.hotelName} ${'★'.repeat(stay.stars)}` : stay.hotelName;
+      }));
+    }
+  }
+
+  // ---- Price matrix per tier ----
+  for (const tier of tiers) {
+    for (const roomType of ROOM_TYPES) {
+      const values = packages.map(p => formatRupiah(p.priceMatrix[tier]?.[roomType]));
+      if (values.every(value => value === '-')) continue;
+      addRow(`harga:${tier}:${roomType}`, `Harga ${tier}`, ROOM_TYPE_LABELS[roomType], values);
+    }
+  }
+
+  // ---- Summary ----
+  addRow('mulai', 'Ringkasan', 'Harga Mulai', packages.map(p => formatRupiah(getStartingPrice(p)?.price)));
+  addRow('seat', 'Ringkasan', 'Sisa Kursi', packages.map(p => `${p.seatSisa} / ${p.seatTotal}`));
+
+  return rows;
+}
+
+/**
+ * Build a single WhatsApp message comparing the packages
+ * Rows where the packages differ are marked with 🔸
+ */
+export function buildComparisonMessage(packages: UmrohPackage[]): string {
+  const rows = buildComparisonRows(packages);
+  const lines: string[] = [
+    '*PERBANDINGAN PAKET UMROH*',
+    '*ALHIJAZ INDOWISATA*',
+    '_________________________',
+    ...packages.map((p, i) => `${i + 1}. *${p.maskapai || '-'}*, *${p.nama}* (${p.jadwalId})`),
+  ];
+
+  let currentSection = '';
+  for (const row of rows) {
+    if (row.section !== currentSection) {
+      currentSection = row.section;
+      lines.push('', `\`\`\`${currentSection.toUpperCase()}\`\`\``);
+    }
+    lines.push(`${row.isDifferent ? '🔸 ' : ''}*${row.label}*`);
+    row.values.forEach((value, i) => lines.push(`${i + 1}. ${value}`));
+  }
+
+  lines.push(
+    '_________________________',
+    '🔸 = berbeda antar paket',
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,206 @@
+/**
+ * Dataset Export
+ * Spreadsheet export (CSV / XLSX) of a package list for the back office:
+ * one row per package × hotel tier, flights, manasik and seats flattened
+ * into columns, every room-type price and every hotel stay of the tier.
+ *
+ * Prices, seats and star ratings are real numbers and dates are real
+ * dates in the XLSX, so the sheet can be summed and sorted directly.
+ * write-excel-file is imported on first use.
+ */
+
+import type { UmrohPackage, FlightInfo, RoomType } from '../types/umroh-package';
+import { calculateDuration } from '../services/data-service';
+import { ROOM_TYPES, ROOM_TYPE_LABELS } from './pricing';
+import { formatHijriDate } from './hijri';
+
+// ============================================
+// Types
+// ============================================
+
+export type ExportValue = string | number | Date | null;
+
+export interface ExportColumn {
+  header: string;
+  /** Thousands separator in XLSX */
+  isMoney?: boolean;
+  /** XLSX column width in characters */
+  width?: number;
+}
+
+export interface ExportTable {
+  columns: ExportColumn[];
+  rows: ExportValue[][];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** "2026-11-12" → Date at UTC midnight (no timezone shift in the sheet) */
+function parseDate(dateStr: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(dateStr || '');
+  if (!match) return null;
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+}
+
+function flightColumns(label: string): ExportColumn[] {
+  return [
+    { header: `Tgl ${label}`, width: 12 },
+    { header: `Tgl ${label} (Hijriah)`, width: 22 },
+    { header: `Jam ${label}`, width: 8 },
+    { header: `Penerbangan ${label}`, width: 14 },
+    { header: `Rute ${label}`, width: 16 },
+  ];
+}
+
+function flightValues(flight: FlightInfo): ExportValue[] {
+  return [
+    parseDate(flight.tgl),
+    formatHijriDate(flight.tgl) || null,
+    flight.jam || null,
+    flight.kodePenerbangan || null,
+    flight.rute || null,
+  ];
+}
+
+/** Tiers of a package (price tiers first, then hotel-only tiers) */
+function getTiers(pkg: UmrohPackage): string[] {
+  const tiers = [...Object.keys(pkg.priceMatrix)];
+  for (const tier of Object.keys(pkg.hotel)) {
+    if (!tiers.includes(tier)) tiers.push(tier);
+  }
+  return tiers;
+}
+
+function escapeCsv(value: ExportValue): string {
+  if (value === null) return '';
+  const text = value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Flatten packages into rows (one per package × tier) with Indonesian headers
+ */
+export function buildExportTable(packages: UmrohPackage[]): ExportTable {
+  // Widest tier decides how many hotel column groups there are
+  const maxStays = Math.max(0, ...packages.flatMap(pkg => Object.values(pkg.hotel).map(stays => stays.length)));
+
+  const columns: ExportColumn[] = [
+    { header: 'Kode Jadwal', width: 12 },
+    { header: 'Nama Paket', width: 32 },
+    { header: 'Promo', width: 7 },
+    { header: 'Maskapai', width: 16 },
+    { header: 'Paket Hotel', width: 12 },
+    ...flightColumns('Berangkat'),
+    ...flightColumns('Pulang'),
+    { header: 'Durasi (hari)', width: 8 },
+    { header: 'Tgl Manasik', width: 12 },
+    { header: 'Tgl Manasik (Hijriah)', width: 22 },
+    { header: 'Jam Manasik', width: 8 },
+    { header: 'Seat Total', width: 8 },
+    { header: 'Seat Sisa', width: 8 },
+    ...ROOM_TYPES.map(type => ({ header: `Harga ${ROOM_TYPE_LABELS[type]}`, isMoney: true, width: 14 })),
+  ];
+
+  for (let i = 1; i <= maxStays; i++) {
+    columns.push(
+      { header: `Hotel ${i} Kota`, width: 10 },
+      { header: `Hotel ${i} Nama`, width: 24 },
+      { header: `Hotel ${i} Bintang`, width: 8 },
+      { header: `Hotel ${i} Jarak`, width: 10 },
+    );
+  }
+
+  const rows: ExportValue[][] = [];
+  for (const pkg of packages) {
+    const tiers = getTiers(pkg);
+
+    for (const tier of tiers.length > 0 ? tiers : ['']) {
+      const prices = pkg.priceMatrix[tier];
+      const stays = pkg.hotel[tier] || [];
+
+      const row: ExportValue[] = [
+        pkg.jadwalId,
+        pkg.nama,
+        pkg.isPromo ? 'Ya' : 'Tidak',
+        pkg.maskapai || null,
+        tier || null,
+        ...flightValues(pkg.keberangkatan),
+        ...flightValues(pkg.kepulangan),
+        calculateDuration(pkg),
+        parseDate(pkg.manasikTanggal),
+        formatHijriDate(pkg.manasikTanggal) || null,
+        pkg.manasikJam || null,
+        pkg.seatTotal,
+        pkg.seatSisa,
+        ...ROOM_TYPES.map((type: RoomType) => prices?.[type] ?? null),
+      ];
+
+      for (let i = 0; i < maxStays; i++) {
+        const stay = stays[i];
+        row.push(stay?.city ?? null, stay?.hotelName ?? null, stay?.stars ?? null, stay?.distanceToHaram ?? null);
+      }
+
+      rows.push(row);
+    }
+  }
+
+  return { columns, rows };
+}
+
+/**
+ * CSV text (comma separated, RFC 4180 quoting, ISO dates)
+ */
+export function toCsv(table: ExportTable): string {
+  const lines = [
+    table.columns.map(column => escapeCsv(column.header)).join(','),
+    ...table.rows.map(row => row.map(escapeCsv).join(',')),
+  ];
+  return lines.join('\r\n');
+}
+
+/**
+ * Download packages as CSV (with BOM so Excel reads UTF-8)
+ */
+export function exportPackagesCsv(packages: UmrohPackage[], fileName: string): void {
+  const csv = toCsv(buildExportTable(packages));
+  downloadBlob(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+}
+
+/**
+ * Download packages as XLSX (bold frozen header, typed cells)
+ */
+export async function exportPackagesXlsx(packages: UmrohPackage[], fileName: string): Promise<void> {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const { columns, rows } = buildExportTable(packages);
+
+  const header = columns.map(column => ({ value: column.header, fontWeight: 'bold' as const }));
+  const body = rows.map(row => row.map((value, i) => {
+    if (value === null) return null;
+    if (value instanceof Date) return { value, type: Date, format: 'dd/mm/yyyy' };
+    if (typeof value === 'number') return { value, type: Number, ...(columns[i].isMoney ? { format: '#,##0' } : {}) };
+    return { value, type: String };
+  }));
+
+  const blob = await writeXlsxFile([header, ...body], {
+    sheet: 'Paket',
+    stickyRowsCount: 1,
+    columns: columns.map(column => ({ width: column.width ?? 12 })),
+  }).toBlob();
+
+  downloadBlob(blob, `${fileName}.xlsx`);
+}
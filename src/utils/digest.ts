@@ -0,0 +1,148 @@
+/**
+ * Digest Utilities
+ * One compact WhatsApp text for a whole filtered list: one line per
+ * package, grouped by departure month. Long lists are split into several
+ * messages so every wa.me link stays under WA_URL_MAX_LENGTH.
+ */
+
+import type { UmrohPackage } from '../types/umroh-package';
+import type { AgentData } from '../data/agents';
+import { groupByMonth, getLandingCity } from './filter-logic';
+import { formatPriceMillions, getStartingPrice } from './pricing';
+import { formatHijriDate } from './hijri';
+
+// ============================================
+// Types
+// ============================================
+
+export interface DigestOptions {
+  agent?: AgentData | null;
+  /** Link back to the same filtered list */
+  listLink?: string;
+  /** Max length of one wa.me URL (default WA_URL_MAX_LENGTH) */
+  maxUrlLength?: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const WA_SHARE_URL = 'https://wa.me/?text=';
+
+/**
+ * Conservative wa.me URL budget: longer links are cut off or rejected by
+ * some Android browsers and the WhatsApp desktop handler
+ */
+export const WA_URL_MAX_LENGTH = 2000;
+
+const DIVIDER = '_________________________';
+
+// ============================================
+// Helpers
+// ============================================
+
+/** wa.me share link for a message */
+export function getWhatsAppShareUrl(message: string): string {
+  return WA_SHARE_URL + encodeURIComponent(message);
+}
+
+function fitsInUrl(message: string, maxUrlLength: number): boolean {
+  return getWhatsAppShareUrl(message).length <= maxUrlLength;
+}
+
+/** "12 Jun" */
+function formatShortDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' });
+}
+
+/**
+ * One digest line: date (Gregorian / Hijri) · airline · landing · starting price · seats left
+ */
+export function buildDigestLine(pkg: UmrohPackage): string {
+  const price = getStartingPrice(pkg)?.price ?? null;
+  const hijri = formatHijriDate(pkg.keberangkatan.tgl, 'short');
+  const parts = [
+    `*${formatShortDate(pkg.keberangkatan.tgl)}*${hijri ? ` (${hijri})` : ''}`,
+    pkg.maskapai || '-',
+    getLandingCity(pkg).name,
+    price ? `Rp ${formatPriceMillions(price)} jt` : 'harga -',
+    pkg.seatSisa > 0 ? `sisa ${pkg.seatSisa} seat` : 'penuh',
+  ];
+  return `• ${parts.join(' · ')}`;
+}
+
+function buildFooter(options: DigestOptions): string[] {
+  const { agent, listLink } = options;
+  const lines: string[] = [DIVIDER];
+
+  if (agent) {
+    lines.push('*Info & Pendaftaran:*', `*${agent.name}*`, `WA: wa.me/${agent.phone}`);
+    if (agent.website) lines.push(agent.website);
+  }
+  if (listLink) lines.push(`Detail semua paket: ${listLink}`);
+
+  return lines.length > 1 ? lines : [];
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Digest messages for a package list (usually one; more when the text
+ * would not fit in one wa.me link). Each part repeats the title with its
+ * number; the agent footer goes on the last part.
+ */
+export function buildDigestMessages(packages: UmrohPackage[], options: DigestOptions = {}): string[] {
+  const maxUrlLength = options.maxUrlLength ?? WA_URL_MAX_LENGTH;
+  const title = '*JADWAL UMROH ALHIJAZ INDOWISATA*';
+
+  // Body lines; month headers start with a newline (blank line above them)
+  const body: { text: string; month: string; isHeader: boolean }[] = [];
+  for (const group of groupByMonth(packages)) {
+    const header = `\n\`\`\`${group.monthName.toUpperCase()}\`\`\``;
+    body.push({ text: header, month: group.monthName, isHeader: true });
+
+    const sorted = [...group.packages].sort((a, b) => a.keberangkatan.tgl.localeCompare(b.keberangkatan.tgl));
+    for (const pkg of sorted) {
+      body.push({ text: buildDigestLine(pkg), month: group.monthName, isHeader: false });
+    }
+  }
+
+  const footer = buildFooter(options);
+  const summary = `${packages.length} paket`;
+
+  // Greedy fill; part numbers are added afterwards, so reserve room for " (99/99)"
+  const budget = maxUrlLength - encodeURIComponent(' (99/99)').length;
+  const parts: string[][] = [];
+  let current: string[] = [title, summary];
+
+  for (const line of body) {
+    if (!fitsInUrl([...current, line.text].join('\n'), budget) && current.length > 2) {
+      // Never end a part with a month header
+      const last = current[current.length - 1];
+      const carriedHeader = last.startsWith('\n') && current.length > 3 ? current.pop() : undefined;
+      parts.push(current);
+
+      current = [title, summary];
+      if (carriedHeader) current.push(carriedHeader);
+      else if (!line.isHeader) current.push(`\n\`\`\`${line.month.toUpperCase()} (lanjutan)\`\`\``);
+    }
+    current.push(line.text);
+  }
+
+  // Footer goes on the last part, or on a part of its own when it doesn't fit
+  if (fitsInUrl([...current, ...footer].join('\n'), budget)) {
+    parts.push([...current, ...footer]);
+  } else {
+    parts.push(current);
+    parts.push([title, ...footer]);
+  }
+
+  if (parts.length === 1) return [parts[0].join('\n')];
+
+  return parts.map((lines, i) => {
+    const [first, ...rest] = lines;
+    return [`${first} (${i + 1}/${parts.length})`, ...rest].join('\n');
+  });
+}
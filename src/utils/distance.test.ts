@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { formatDistance, parseDistanceMeters } from './distance';
+
+describe('parseDistanceMeters', () => {
+  it('reads meters and kilometers', () => {
+    expect(parseDistanceMeters('100m')).toBe(100);
+    expect(parseDistanceMeters('±300 M')).toBe(300);
+    expect(parseDistanceMeters('1.2 km')).toBe(1200);
+    expect(parseDistanceMeters('1,5 KM')).toBe(1500);
+    expect(parseDistanceMeters('250 meter dari pelataran')).toBe(250);
+  });
+
+  it('reads thousands separators in meters', () => {
+    expect(parseDistanceMeters('1.200 m')).toBe(1200);
+  });
+
+  it('takes the far end of a range', () => {
+    expect(parseDistanceMeters('100-200m')).toBe(200);
+    expect(parseDistanceMeters('± 1 – 1,5 km')).toBe(1500);
+  });
+
+  it('treats a bare number as meters', () => {
+    expect(parseDistanceMeters('400')).toBe(400);
+  });
+
+  it('returns null for text that is not a distance', () => {
+    expect(parseDistanceMeters(null)).toBeNull();
+    expect(parseDistanceMeters('')).toBeNull();
+    expect(parseDistanceMeters('dekat')).toBeNull();
+    expect(parseDistanceMeters('5 menit jalan kaki')).toBeNull();
+  });
+});
+
+describe('formatDistance', () => {
+  it('switches to km from 1000 m', () => {
+    expect(formatDistance(300)).toBe('300 m');
+    expect(formatDistance(1250)).toBe('1.3 km');
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Distance Utilities
+ * The API sends hotel distances to Masjidil Haram / Masjid Nabawi as free
+ * text ("100m", "1.2 km", "±300 M", "1,5 KM", "100-200 meter"); these turn
+ * them into meters so they can be filtered and compared.
+ */
+
+// ============================================
+// Constants
+// ============================================
+
+/** First number, an optional "to" number (ranges) and the unit word after it */
+const DISTANCE_PATTERN = /(\d+(?:[.,]\d+)*)(?:\s*(?:-|–|s\/d)\s*(\d+(?:[.,]\d+)*))?\s*([a-z]*)/;
+
+/** "1.200" or "1,200" (thousands separators) */
+const THOUSANDS_PATTERN = /^\d{1,3}(?:[.,]\d{3})+$/;
+
+const METER_UNITS = ['', 'm', 'mtr', 'meter'];
+const KILOMETER_UNITS = ['km', 'kilo', 'kilometer'];
+
+// ============================================
+// Helpers
+// ============================================
+
+function parseNumber(value: string, isMeters: boolean): number {
+  if (isMeters && THOUSANDS_PATTERN.test(value)) return parseInt(value.replace(/[.,]/g, ''), 10);
+  return parseFloat(value.replace(',', '.'));
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Distance in meters from API text; a range counts as its far end
+ * ("100-200m" → 200). Null when there is no number or the unit isn't
+ * a distance (e.g. "5 menit").
+ */
+export function parseDistanceMeters(text: string | null | undefined): number | null {
+  const match = DISTANCE_PATTERN.exec((text || '').toLowerCase());
+  if (!match) return null;
+
+  const unit = match[3];
+  const isMeters = METER_UNITS.includes(unit);
+  if (!isMeters && !KILOMETER_UNITS.includes(unit)) return null;
+
+  const value = parseNumber(match[2] ?? match[1], isMeters);
+  if (!Number.isFinite(value)) return null;
+  return Math.round(isMeters ? value : value * 1000);
+}
+
+/**
+ * "300 m" or "1.2 km"
+ */
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${meters} m` : `${parseFloat((meters / 1000).toFixed(1))} km`;
+}
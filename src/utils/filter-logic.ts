@@ -1,33 +1,21 @@
 /**
  * Filter Logic Utilities for Umroh Packages
- * Handles filtering, grouping, and data extraction
+ * Handles grouping and data extraction (filtering itself: see filter-spec)
  */
 
 import type { UmrohPackage } from '@/types';
+import { formatHijriMonthSpan } from './hijri';
 
 // ============================================
 // Types
 // ============================================
 
-export type FilterMode = 
-  | 'AVAILABLE'     // Filter paket dengan kursi tersedia
-  | 'LANDING'       // Filter berdasarkan kota kedatangan
-  | 'PROMO'         // Filter paket promo
-  | 'DATA PER-BULAN'// Filter berdasarkan bulan keberangkatan
-  | 'SEMUA DATA';   // Tampilkan semua data
-
-export interface FilterParams {
-  mode: FilterMode;
-  /** Secondary value: nama kota (LANDING) atau nama bulan (DATA PER-BULAN) */
-  secondaryValue?: string;
-}
-
 export interface MonthGroup {
   /** Month key for filtering (e.g., "2026-06") */
   monthKey: string;
   /** Display name in Indonesian (e.g., "Juni 2026") */
   monthName: string;
-  /** Hijri month display (e.g., "Dzulhijjah 1447") */
+  /** Umm al-Qura month(s) of the departures (e.g., "Dzulhijjah 1447 – Muharram 1448") */
   monthNameHijri?: string;
   /** Total seats across all packages in this month */
   totalSeat: number;
@@ -68,13 +56,6 @@ const MONTH_NAMES_ID = [
   'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember'
 ];
 
-/** Hijri month names */
-const HIJRI_MONTH_NAMES = [
-  'Muharram', 'Safar', 'Rabiul Awal', 'Rabiul Akhir',
-  'Jumadil Awal', 'Jumadil Akhir', 'Rajab', 'Syaban',
-  'Ramadhan', 'Syawal', 'Dzulqaidah', 'Dzulhijjah'
-];
-
 // ============================================
 // Helper Functions
 // ============================================
@@ -94,14 +75,14 @@ function extractDestinationCity(route: string): string {
 /**
  * Get city name from code
  */
-function getCityName(code: string): string {
+export function getCityName(code: string): string {
   return CITY_NAMES[code] || code;
 }
 
 /**
  * Format date to month key (YYYY-MM)
  */
-function getMonthKey(dateStr: string): string {
+export function getMonthKey(dateStr: string): string {
   const date = new Date(dateStr);
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
@@ -111,35 +92,24 @@ function getMonthKey(dateStr: string): string {
 /**
  * Format month key to display name
  */
-function formatMonthName(monthKey: string): string {
+export function formatMonthName(monthKey: string): string {
   const [year, month] = monthKey.split('-');
   const monthIndex = parseInt(month, 10) - 1;
   return `${MONTH_NAMES_ID[monthIndex]} ${year}`;
 }
 
-/**
- * Approximate Hijri date from Gregorian
- * Note: This is a simplified conversion, for demo purposes
- */
-function approximateHijriMonth(dateStr: string): string {
-  const date = new Date(dateStr);
-  // Simple approximation: Hijri year ≈ Gregorian year - 579 + adjustment
-  // The Islamic new year moves about 11 days earlier each Gregorian year
-  const gregorianYear = date.getFullYear();
-  const hijriYear = Math.floor(gregorianYear - 579 - (gregorianYear - 2000) * 0.03);
-  
-  // Approximate Hijri month (this is very rough)
-  const gregorianMonth = date.getMonth();
-  // Offset by about 5 months for current era (this is approximate)
-  const hijriMonthIndex = (gregorianMonth + 5) % 12;
-  
-  return `${HIJRI_MONTH_NAMES[hijriMonthIndex]} ${hijriYear}`;
-}
-
 // ============================================
 // Main Export Functions
 // ============================================
 
+/**
+ * Landing city of a package (destination of the departure flight)
+ */
+export function getLandingCity(pkg: UmrohPackage): { code: string; name: string } {
+  const code = extractDestinationCity(pkg.keberangkatan.rute);
+  return { code, name: getCityName(code) };
+}
+
 /**
  * Extract unique landing cities from all packages
  * Scans departure and return routes to find destination cities
@@ -212,7 +182,7 @@ export function groupByMonth(packages: UmrohPackage[]): MonthGroup[] {
     .map(([monthKey, data]) => ({
       monthKey,
       monthName: formatMonthName(monthKey),
-      monthNameHijri: approximateHijriMonth(data.packages[0].keberangkatan.tgl),
+      monthNameHijri: formatHijriMonthSpan(data.packages.map(pkg => pkg.keberangkatan.tgl)) || undefined,
       totalSeat: data.totalSeat,
       availableSeat: data.availableSeat,
       packageCount: data.packages.length,
@@ -242,145 +212,6 @@ export function getMonthOptions(packages: UmrohPackage[]): Array<{
   }));
 }
 
-/**
- * Main filter function
- * Filters packages based on mode and optional secondary value
- */
-export function filterPackages(
-  data: UmrohPackage[],
-  params: FilterParams
-): UmrohPackage[] {
-  const { mode, secondaryValue } = params;
-
-  switch (mode) {
-    case 'SEMUA DATA':
-      // Return all data, no filtering
-      return data;
-
-    case 'AVAILABLE':
-      // Filter packages with available seats
-      return data.filter(pkg => pkg.seatSisa > 0);
-
-    case 'PROMO':
-      // Filter promo packages only
-      return data.filter(pkg => pkg.isPromo);
-
-    case 'LANDING':
-      // Filter by landing city
-      if (!secondaryValue) {
-        return data;
-      }
-      return data.filter(pkg => {
-        const destCity = extractDestinationCity(pkg.keberangkatan.rute);
-        return destCity === secondaryValue.toUpperCase() ||
-               getCityName(destCity).toLowerCase() === secondaryValue.toLowerCase();
-      });
-
-    case 'DATA PER-BULAN':
-      // Filter by departure month
-      if (!secondaryValue) {
-        return data;
-      }
-      return data.filter(pkg => {
-        const monthKey = getMonthKey(pkg.keberangkatan.tgl);
-        return monthKey === secondaryValue;
-      });
-
-    default:
-      return data;
-  }
-}
-
-/**
- * Combined filter with multiple criteria
- * Useful when applying multiple filters at once
- */
-export function filterPackagesAdvanced(
-  data: UmrohPackage[],
-  options: {
-    mode?: FilterMode;
-    secondaryValue?: string;
-    searchQuery?: string;
-    sortBy?: 'date_asc' | 'date_desc' | 'price_asc' | 'price_desc';
-  }
-): UmrohPackage[] {
-  let result = [...data];
-  const { mode, secondaryValue, searchQuery, sortBy } = options;
-
-  // 1. Apply mode filter
-  if (mode && mode !== 'SEMUA DATA') {
-    result = filterPackages(result, { mode, secondaryValue });
-  }
-
-  // 2. Apply search query
-  if (searchQuery?.trim()) {
-    const query = searchQuery.toLowerCase().trim();
-    result = result.filter(pkg => {
-      const nameMatch = pkg.nama.toLowerCase().includes(query);
-      const dateMatch = pkg.keberangkatan.tgl.includes(query) ||
-                       pkg.kepulangan.tgl.includes(query);
-      const airlineMatch = pkg.maskapai.toLowerCase().includes(query);
-      return nameMatch || dateMatch || airlineMatch;
-    });
-  }
-
-  // 3. Apply sorting
-  if (sortBy) {
-    switch (sortBy) {
-      case 'date_asc':
-        result.sort((a, b) => 
-          new Date(a.keberangkatan.tgl).getTime() - new Date(b.keberangkatan.tgl).getTime()
-        );
-        break;
-      case 'date_desc':
-        result.sort((a, b) => 
-          new Date(b.keberangkatan.tgl).getTime() - new Date(a.keberangkatan.tgl).getTime()
-        );
-        break;
-      case 'price_asc':
-        result.sort((a, b) => {
-          const priceA = getMinPrice(a);
-          const priceB = getMinPrice(b);
-          return priceA - priceB;
-        });
-        break;
-      case 'price_desc':
-        result.sort((a, b) => {
-          const priceA = getMinPrice(a);
-          const priceB = getMinPrice(b);
-          return priceB - priceA;
-        });
-        break;
-    }
-  }
-
-  return result;
-}
-
-/**
- * Get minimum price from package for sorting
- */
-function getMinPrice(pkg: UmrohPackage): number {
-  let minPrice = Infinity;
-  
-  for (const tierPricing of Object.values(pkg.harga)) {
-    const prices = [
-      tierPricing.Double,
-      tierPricing.Triple,
-      tierPricing.Quard,
-    ].filter(Boolean);
-    
-    for (const price of prices) {
-      const numPrice = parseInt(price!, 10);
-      if (numPrice < minPrice) {
-        minPrice = numPrice;
-      }
-    }
-  }
-
-  return minPrice === Infinity ? 0 : minPrice;
-}
-
 /**
  * Get statistics for current filter result
  */
@@ -0,0 +1,303 @@
+import { describe, expect, it } from 'vitest';
+import type { HotelStay, UmrohPackage } from '../types/umroh-package';
+import type { HaramCityKey } from '../services/data-service';
+import { parseDistanceMeters } from './distance';
+import { buildPriceMatrix, getPriceBounds } from './pricing';
+import {
+  DEFAULT_FILTER_SPEC,
+  applyFilterSpec,
+  countFilterCriteria,
+  describeFilterSpec,
+  getMatchingTiers,
+  isQuickFilterActive,
+  isTimeInRanges,
+  matchesFilterSpec,
+  toggleQuickFilter,
+  type FilterSpec,
+  type HotelCriteria,
+} from './filter-spec';
+
+// ============================================
+// Fixtures
+// ============================================
+
+const stay = (
+  cityKey: string,
+  stars: number | null,
+  distance: string | null = null,
+  hotelName = `Hotel ${cityKey}`
+): HotelStay => ({
+  cityKey,
+  city: cityKey.charAt(0).toUpperCase() + cityKey.slice(1),
+  hotelName,
+  stars,
+  distanceToHaram: distance,
+  distanceMeters: parseDistanceMeters(distance),
+});
+
+function makePackage(overrides: Partial<UmrohPackage> = {}): UmrohPackage {
+  const harga = overrides.harga ?? {
+    HEMAT: { Quard: '30000000', Triple: '32000000', Double: '35000000' },
+    UHUD: { Quard: '38000000', Triple: '40000000', Double: '43000000' },
+  };
+  return {
+    jadwalId: 'JBU1000',
+    nama: 'UMROH REGULER 12HR',
+    isPromo: false,
+    seatTotal: 45,
+    seatSisa: 10,
+    maskapai: 'SAUDIA',
+    keberangkatan: { tgl: '2026-06-10', jam: '09.30', rute: 'CGK - JED', kodePenerbangan: 'SV 817' },
+    kepulangan: { tgl: '2026-06-21', jam: '20.15', rute: 'JED - CGK', kodePenerbangan: 'SV 816' },
+    manasikTanggal: '2026-06-01',
+    manasikJam: '08:00:00',
+    brosurUrl: '',
+    itineraryUrl: '',
+    perlengkapanHarga: '0',
+    priceMatrix: buildPriceMatrix(harga),
+    hotel: {
+      HEMAT: [stay('mekkah', 3, '±800 M'), stay('madinah', 3, '400m')],
+      UHUD: [stay('mekkah', 5, '100m', 'Hilton Convention'), stay('madinah', 4, '1.2 km')],
+    },
+    ...overrides,
+    harga,
+  };
+}
+
+const spec = (changes: Partial<FilterSpec> = {}): FilterSpec => ({ ...DEFAULT_FILTER_SPEC, ...changes });
+
+/** Hotel criteria for the given cities (both by default) */
+const hotels = (
+  criteria: Partial<HotelCriteria>,
+  cityKeys: HaramCityKey[] = ['mekkah', 'madinah']
+): FilterSpec['hotels'] => {
+  const result = { ...DEFAULT_FILTER_SPEC.hotels };
+  cityKeys.forEach(cityKey => {
+    result[cityKey] = { ...result[cityKey], ...criteria };
+  });
+  return result;
+};
+
+const ids = (packages: UmrohPackage[]) => packages.map(pkg => pkg.jadwalId);
+
+const PACKAGES: UmrohPackage[] = [
+  makePackage({ jadwalId: 'A' }),
+  makePackage({
+    jadwalId: 'B',
+    isPromo: true,
+    seatSisa: 3,
+    keberangkatan: { tgl: '2026-06-03', jam: '23.00', rute: 'CGK - MED', kodePenerbangan: 'GA 980' },
+    kepulangan: { tgl: '2026-06-11', jam: '07.00', rute: 'JED - CGK', kodePenerbangan: 'GA 981' },
+    maskapai: 'GARUDA',
+  }),
+  makePackage({
+    jadwalId: 'C',
+    seatSisa: 0,
+    keberangkatan: { tgl: '2026-07-15', jam: '10.00', rute: 'CGK - MED', kodePenerbangan: 'SV 819' },
+    kepulangan: { tgl: '2026-07-26', jam: '13.00', rute: 'JED - CGK', kodePenerbangan: 'SV 818' },
+  }),
+  makePackage({
+    jadwalId: 'D',
+    nama: 'UMROH RAHMAH 9HR',
+    isPromo: true,
+    keberangkatan: { tgl: '2026-08-05', jam: '14.00', rute: 'CGK - MED', kodePenerbangan: 'SV 821' },
+    kepulangan: { tgl: '2026-08-13', jam: '19.00', rute: 'MED - CGK', kodePenerbangan: 'SV 820' },
+    harga: { RAHMAH: { Quard: '45000000', Double: '52000000' } },
+    hotel: { RAHMAH: [stay('mekkah', 5), stay('madinah', 5)] },
+  }),
+];
+
+// ============================================
+// Tests
+// ============================================
+
+describe('applyFilterSpec', () => {
+  it('shows packages with seats left by departure date by default', () => {
+    expect(ids(applyFilterSpec(PACKAGES, DEFAULT_FILTER_SPEC))).toEqual(['B', 'A', 'D']);
+  });
+
+  it('includes full packages when availability is off', () => {
+    expect(ids(applyFilterSpec(PACKAGES, spec({ availableOnly: false })))).toEqual(['B', 'A', 'C', 'D']);
+  });
+
+  it('combines criteria with AND (landing MED + promo + June)', () => {
+    const result = applyFilterSpec(PACKAGES, spec({
+      landings: ['MED'],
+      promoOnly: true,
+      months: { from: '2026-06', to: '2026-06' },
+    }));
+    expect(ids(result)).toEqual(['B']);
+  });
+
+  it('matches any value within a list criterion', () => {
+    expect(ids(applyFilterSpec(PACKAGES, spec({ airlines: ['garuda', 'Saudia'] })))).toEqual(['B', 'A', 'D']);
+    expect(ids(applyFilterSpec(PACKAGES, spec({ airlines: ['GARUDA'] })))).toEqual(['B']);
+  });
+
+  it('matches landing cities by code or name', () => {
+    expect(ids(applyFilterSpec(PACKAGES, spec({ landings: ['Jeddah'] })))).toEqual(['A']);
+  });
+
+  it('filters an inclusive month range with open ends', () => {
+    const all = spec({ availableOnly: false });
+    expect(ids(applyFilterSpec(PACKAGES, { ...all, months: { from: '2026-07', to: '2026-08' } }))).toEqual(['C', 'D']);
+    expect(ids(applyFilterSpec(PACKAGES, { ...all, months: { from: null, to: '2026-06' } }))).toEqual(['B', 'A']);
+  });
+
+  it('filters by trip duration', () => {
+    expect(ids(applyFilterSpec(PACKAGES, spec({ duration: { min: null, max: 9 } })))).toEqual(['B', 'D']);
+    expect(ids(applyFilterSpec(PACKAGES, spec({ duration: { min: 12, max: 12 } })))).toEqual(['A']);
+  });
+
+  it('filters by departure and return time buckets', () => {
+    expect(ids(applyFilterSpec(PACKAGES, spec({ departureTimes: ['18-24'] })))).toEqual(['B']);
+    expect(ids(applyFilterSpec(PACKAGES, spec({ returnTimes: ['18-24'], departureTimes: ['06-12', '12-18'] }))))
+      .toEqual(['A', 'D']);
+  });
+
+  it('filters by name keywords and search', () => {
+    expect(ids(applyFilterSpec(PACKAGES, spec({ nameKeywords: ['rahmah'] })))).toEqual(['D']);
+    expect(ids(applyFilterSpec(PACKAGES, spec({ search: 'hilton' })))).toEqual(['B', 'A']);
+    expect(ids(applyFilterSpec(PACKAGES, spec({ search: 'ga 98' })))).toEqual(['B']);
+    expect(ids(applyFilterSpec(PACKAGES, spec({ search: '2026-08-13' })))).toEqual(['D']);
+  });
+
+  it('sorts by seats left or by the cheapest matching tier', () => {
+    expect(ids(applyFilterSpec(PACKAGES, spec({ sort: 'seat' })))).toEqual(['B', 'A', 'D']);
+
+    const cheap = makePackage({ jadwalId: 'E', harga: { HEMAT: { Quard: '29000000' } } });
+    expect(ids(applyFilterSpec([...PACKAGES, cheap], spec({ sort: 'price' })))).toEqual(['E', 'B', 'A', 'D']);
+    // With a 5-star minimum, A and B are priced by their UHUD tier
+    expect(ids(applyFilterSpec([...PACKAGES, cheap], spec({ sort: 'price', hotels: hotels({ minStars: 4 }) })))).toEqual(['B', 'A', 'D']);
+  });
+
+  it('does not modify the input list', () => {
+    const input = [...PACKAGES];
+    applyFilterSpec(input, spec({ sort: 'seat' }));
+    expect(ids(input)).toEqual(['A', 'B', 'C', 'D']);
+  });
+});
+
+describe('tier criteria', () => {
+  const pkg = PACKAGES[0];
+
+  it('keeps every priced tier when no tier criterion is set', () => {
+    expect(getMatchingTiers(pkg, DEFAULT_FILTER_SPEC)).toEqual(['HEMAT', 'UHUD']);
+  });
+
+  it('checks tier name, price and stars on the same tier', () => {
+    expect(getMatchingTiers(pkg, spec({ price: { min: null, max: 31000000 } }))).toEqual(['HEMAT']);
+    expect(getMatchingTiers(pkg, spec({ hotels: hotels({ minStars: 4 }) }))).toEqual(['UHUD']);
+    expect(getMatchingTiers(pkg, spec({ tiers: ['hemat'] }))).toEqual(['HEMAT']);
+    // The cheap tier has 3-star hotels, the 4-star tier is over budget
+    expect(matchesFilterSpec(pkg, spec({ hotels: hotels({ minStars: 4 }), price: { min: null, max: 35000000 } })))
+      .toBe(false);
+  });
+
+  it('applies the budget to the chosen room type', () => {
+    const budget = { min: null, max: 34000000 };
+    expect(getMatchingTiers(pkg, spec({ price: budget }))).toEqual(['HEMAT']);
+    expect(getMatchingTiers(pkg, spec({ price: budget, priceRoomType: 'Quard' }))).toEqual(['HEMAT']);
+    expect(getMatchingTiers(pkg, spec({ price: budget, priceRoomType: 'Double' }))).toEqual([]);
+    expect(getMatchingTiers(pkg, spec({ price: { min: 40000000, max: 44000000 }, priceRoomType: 'Double' })))
+      .toEqual(['UHUD']);
+  });
+
+  it('skips tiers that do not offer the budget room type', () => {
+    const quadOnly = PACKAGES[3];
+    expect(matchesFilterSpec(quadOnly, spec({ price: { min: null, max: 60000000 }, priceRoomType: 'Triple' })))
+      .toBe(false);
+  });
+
+  it('takes slider bounds from the live prices', () => {
+    expect(getPriceBounds(PACKAGES, null)).toEqual({ min: 30000000, max: 45000000 });
+    expect(getPriceBounds(PACKAGES, 'Double')).toEqual({ min: 35000000, max: 52000000 });
+    expect(getPriceBounds([], 'Quard')).toBeNull();
+  });
+
+  it('requires a rating for every Mekkah and Madinah hotel', () => {
+    const unrated = makePackage({ hotel: { HEMAT: [stay('mekkah', 5), stay('madinah', null)] } });
+    expect(matchesFilterSpec(unrated, spec({ hotels: hotels({ minStars: 3 }) }))).toBe(false);
+    expect(matchesFilterSpec(unrated, spec({ hotels: hotels({ minStars: 3 }, ['mekkah']) }))).toBe(true);
+  });
+
+  it('checks stars and walking distance per city', () => {
+    expect(getMatchingTiers(pkg, spec({ hotels: hotels({ maxDistance: 500 }, ['mekkah']) }))).toEqual(['UHUD']);
+    expect(getMatchingTiers(pkg, spec({ hotels: hotels({ maxDistance: 500 }, ['madinah']) }))).toEqual(['HEMAT']);
+    expect(matchesFilterSpec(pkg, spec({ hotels: hotels({ maxDistance: 500 }) }))).toBe(false);
+    expect(getMatchingTiers(pkg, spec({ hotels: hotels({ minStars: 5 }, ['mekkah']) }))).toEqual(['UHUD']);
+    expect(getMatchingTiers(pkg, spec({ hotels: hotels({ minStars: 4, maxDistance: 1000 }, ['madinah']) })))
+      .toEqual([]);
+    expect(getMatchingTiers(pkg, spec({ hotels: hotels({ minStars: 4, maxDistance: 1500 }, ['madinah']) })))
+      .toEqual(['UHUD']);
+  });
+
+  it('requires a readable distance', () => {
+    const vague = makePackage({ hotel: { HEMAT: [stay('mekkah', 4, 'dekat'), stay('madinah', 4, '200 m')] } });
+    expect(matchesFilterSpec(vague, spec({ hotels: hotels({ maxDistance: 1000 }, ['madinah']) }))).toBe(true);
+    expect(matchesFilterSpec(vague, spec({ hotels: hotels({ maxDistance: 1000 }) }))).toBe(false);
+  });
+});
+
+describe('quick filters', () => {
+  it('map onto the spec and combine', () => {
+    let result = toggleQuickFilter(DEFAULT_FILTER_SPEC, 'promo');
+    result = toggleQuickFilter(result, 'rahmah');
+    result = toggleQuickFilter(result, 'urgent');
+    expect(result).toMatchObject({ promoOnly: true, nameKeywords: ['rahmah'], sort: 'seat' });
+    expect(isQuickFilterActive(result, 'termurah')).toBe(false);
+
+    result = toggleQuickFilter(result, 'termurah');
+    expect(result.sort).toBe('price');
+    expect(isQuickFilterActive(result, 'urgent')).toBe(false);
+  });
+
+  it('toggle seasons off again', () => {
+    const on = toggleQuickFilter(DEFAULT_FILTER_SPEC, 'ramadhan');
+    expect(on.seasons).toEqual(['ramadhan']);
+    expect(toggleQuickFilter(on, 'ramadhan').seasons).toEqual([]);
+  });
+});
+
+describe('isTimeInRanges', () => {
+  it('reads "HH.MM" and "HH:MM" times', () => {
+    expect(isTimeInRanges('05.59', ['00-06'])).toBe(true);
+    expect(isTimeInRanges('06:00', ['00-06'])).toBe(false);
+    expect(isTimeInRanges('23.45', ['18-24'])).toBe(true);
+    expect(isTimeInRanges('', [])).toBe(true);
+    expect(isTimeInRanges('', ['00-06'])).toBe(false);
+  });
+});
+
+describe('describeFilterSpec and countFilterCriteria', () => {
+  it('describe and count the active criteria', () => {
+    const active = spec({
+      landings: ['MED'],
+      months: { from: '2026-06', to: '2026-08' },
+      promoOnly: true,
+      price: { min: null, max: 35000000 },
+      priceRoomType: 'Quard',
+      hotels: hotels({ minStars: 4 }),
+      search: 'turki',
+    });
+    expect(describeFilterSpec(active)).toBe(
+      'Seat tersedia · Landing Madinah · Juni – Agustus 2026 · Promo · Harga Quad ≤ 35 jt · Hotel ★4+ · Cari: turki'
+    );
+    expect(countFilterCriteria(active)).toBe(5);
+    expect(countFilterCriteria(DEFAULT_FILTER_SPEC)).toBe(0);
+  });
+
+  it('describe hotel criteria per city', () => {
+    const active = spec({
+      hotels: {
+        mekkah: { minStars: 5, maxDistance: 300 },
+        madinah: { minStars: 4, maxDistance: null },
+      },
+    });
+    expect(describeFilterSpec(active)).toBe(
+      'Seat tersedia · Hotel Mekkah ★5+ · Hotel Madinah ★4+ · Jarak Mekkah ≤ 300 m'
+    );
+    expect(countFilterCriteria(active)).toBe(2);
+    expect(describeFilterSpec(spec({ hotels: hotels({ maxDistance: 1000 }) }))).toBe('Seat tersedia · Jarak ≤ 1 km');
+  });
+});
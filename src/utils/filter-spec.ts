@@ -0,0 +1,492 @@
+/**
+ * Filter Spec Utilities
+ * Declarative filter for the package list: each criterion is a predicate
+ * and a package must pass every active one (e.g. landing Madinah AND promo
+ * AND June). Inside a list criterion any value matches (airlines: Saudia OR
+ * Garuda). The list view, URL state, exports and the iCal feed all run the
+ * same spec through applyFilterSpec.
+ *
+ * Tier criteria (tiers, price, hotel stars and distance) are checked per
+ * hotel tier: a package matches when at least one of its tiers passes all of
+ * them together, and the card highlights those tiers (e.g. the tier inside
+ * the budget whose Mekkah hotel is within 300 m).
+ */
+
+import type { RoomType, UmrohPackage } from '../types/umroh-package';
+import { HARAM_CITY_KEYS, calculateDuration, type HaramCityKey } from '../services/data-service';
+import { formatDistance } from './distance';
+import { getCityName, getLandingCity, getMonthKey, formatMonthName } from './filter-logic';
+import { ROOM_TYPE_LABELS, getTierPrice } from './pricing';
+import { SEASON_LABELS, getPackageSeasons, isSeasonType, type SeasonType } from './season';
+
+// ============================================
+// Types
+// ============================================
+
+/** Flight time buckets (hours, end exclusive) */
+export type TimeRange = '00-06' | '06-12' | '12-18' | '18-24';
+
+/** One-tap presets in the filter sheet, each mapped onto the spec */
+export type QuickFilterType =
+  | 'promo'
+  | 'urgent'
+  | 'termurah'
+  | 'rahmah'
+  | SeasonType;
+
+/**
+ * List order
+ * - date:  departure date
+ * - seat:  fewest seats left first ("urgent")
+ * - price: cheapest matching tier first (budget room type, else starting price)
+ */
+export type FilterSort = 'date' | 'seat' | 'price';
+
+/** Inclusive range, null for an open end */
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+}
+
+/** Hotel requirements for one Haram city (null = any) */
+export interface HotelCriteria {
+  minStars: number | null;
+  /** Walking distance to Masjidil Haram / Masjid Nabawi, in meters */
+  maxDistance: number | null;
+}
+
+export interface FilterSpec {
+  /** Airline names, case-insensitive ([] = all) */
+  airlines: string[];
+  /** Landing city codes or names, e.g. "MED" ([] = all) */
+  landings: string[];
+  /** Departure months "YYYY-MM", inclusive (null = open end) */
+  months: { from: string | null; to: string | null };
+  promoOnly: boolean;
+  /** Only packages with seats left */
+  availableOnly: boolean;
+  /** Budget: price of a matching tier, in Rupiah */
+  price: NumberRange;
+  /** Room type the budget applies to (null = the tier's starting price) */
+  priceRoomType: RoomType | null;
+  /** Mekkah and Madinah hotel requirements of a tier */
+  hotels: Record<HaramCityKey, HotelCriteria>;
+  /** Trip length in days */
+  duration: NumberRange;
+  departureTimes: TimeRange[];
+  returnTimes: TimeRange[];
+  /** Hotel tiers, e.g. "HEMAT" ([] = all) */
+  tiers: string[];
+  /** Seasons, any of ([] = all) */
+  seasons: SeasonType[];
+  /** Words that must all appear in the package name (e.g. "rahmah") */
+  nameKeywords: string[];
+  /** Omni search: name, airline, flight codes, landing, hotels, dates */
+  search: string;
+  sort: FilterSort;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const TIME_RANGES: TimeRange[] = ['00-06', '06-12', '12-18', '18-24'];
+
+export const QUICK_FILTERS: QuickFilterType[] = ['promo', 'urgent', 'termurah', 'rahmah'];
+
+export const HARAM_CITY_LABELS: Record<HaramCityKey, string> = {
+  mekkah: 'Mekkah',
+  madinah: 'Madinah',
+};
+
+/** The list shown on first load: every package with seats left, by date */
+export const DEFAULT_FILTER_SPEC: FilterSpec = {
+  airlines: [],
+  landings: [],
+  months: { from: null, to: null },
+  promoOnly: false,
+  availableOnly: true,
+  price: { min: null, max: null },
+  priceRoomType: null,
+  hotels: {
+    mekkah: { minStars: null, maxDistance: null },
+    madinah: { minStars: null, maxDistance: null },
+  },
+  duration: { min: null, max: null },
+  departureTimes: [],
+  returnTimes: [],
+  tiers: [],
+  seasons: [],
+  nameKeywords: [],
+  search: '',
+  sort: 'date',
+};
+
+/** Hour span of each time bucket [from, to) */
+const TIME_RANGE_HOURS: Record<TimeRange, [number, number]> = {
+  '00-06': [0, 6],
+  '06-12': [6, 12],
+  '12-18': [12, 18],
+  '18-24': [18, 25],
+};
+
+/** Labels for summaries (PDF cover, exports, empty state) */
+const SORT_LABELS: Record<FilterSort, string> = {
+  date: 'Urut tanggal',
+  seat: 'Urgent / terdekat',
+  price: 'Harga termurah',
+};
+
+const RAHMAH_KEYWORD = 'rahmah';
+
+// ============================================
+// Helpers
+// ============================================
+
+function isRangeActive(range: NumberRange): boolean {
+  return range.min !== null || range.max !== null;
+}
+
+function isInRange(value: number, range: NumberRange): boolean {
+  return (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+}
+
+function includesIgnoreCase(values: string[], value: string): boolean {
+  const lower = value.toLowerCase();
+  return values.some(item => item.toLowerCase() === lower);
+}
+
+function formatMillions(price: number): string {
+  return `${parseFloat((price / 1000000).toFixed(1))} jt`;
+}
+
+function formatRange(range: NumberRange, format: (value: number) => string, unit = ''): string {
+  const suffix = unit ? ` ${unit}` : '';
+  if (range.min !== null && range.max !== null) {
+    return range.min === range.max
+      ? `${format(range.min)}${suffix}`
+      : `${format(range.min)}–${format(range.max)}${suffix}`;
+  }
+  if (range.min !== null) return `≥ ${format(range.min)}${suffix}`;
+  return `≤ ${format(range.max!)}${suffix}`;
+}
+
+/**
+ * Whether a flight time ("HH.MM" or "HH:MM") falls in one of the buckets
+ * (no buckets = any time)
+ */
+export function isTimeInRanges(time: string, ranges: TimeRange[]): boolean {
+  if (ranges.length === 0) return true;
+  const hour = parseInt(time, 10);
+  return ranges.some(range => {
+    const [from, to] = TIME_RANGE_HOURS[range];
+    return hour >= from && hour < to;
+  });
+}
+
+/**
+ * Omni search over name, airline, flight codes, landing, hotels and
+ * departure/return dates ("12 oktober 2026" or "2026-10-12")
+ */
+export function matchesSearch(pkg: UmrohPackage, search: string): boolean {
+  const query = search.toLowerCase().trim();
+  if (!query) return true;
+
+  const landingCity = pkg.keberangkatan.rute.split(' - ')[1] || '';
+  const departureDate = new Date(pkg.keberangkatan.tgl).toLocaleDateString('id-ID', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  }).toLowerCase();
+
+  return pkg.nama.toLowerCase().includes(query) ||
+    pkg.maskapai.toLowerCase().includes(query) ||
+    pkg.keberangkatan.kodePenerbangan.toLowerCase().includes(query) ||
+    pkg.kepulangan.kodePenerbangan.toLowerCase().includes(query) ||
+    landingCity.toLowerCase().includes(query) ||
+    Object.values(pkg.hotel).some(stays =>
+      stays.some(stay =>
+        stay.hotelName.toLowerCase().includes(query) ||
+        stay.city.toLowerCase().includes(query)
+      )
+    ) ||
+    departureDate.includes(query) ||
+    pkg.keberangkatan.tgl.includes(query) ||
+    pkg.kepulangan.tgl.includes(query);
+}
+
+function isHotelCriteriaActive(criteria: HotelCriteria): boolean {
+  return criteria.minStars !== null || criteria.maxDistance !== null;
+}
+
+/**
+ * Whether the tier's hotels in each city meet that city's requirements
+ * (a stay without a rating or a readable distance doesn't qualify)
+ */
+function meetsHotelCriteria(pkg: UmrohPackage, tier: string, hotels: FilterSpec['hotels']): boolean {
+  const tierStays = pkg.hotel[tier] || [];
+  return HARAM_CITY_KEYS.every(cityKey => {
+    const { minStars, maxDistance } = hotels[cityKey];
+    if (minStars === null && maxDistance === null) return true;
+    const stays = tierStays.filter(stay => stay.cityKey === cityKey);
+    return stays.length > 0 && stays.every(stay =>
+      (minStars === null || (stay.stars !== null && stay.stars >= minStars)) &&
+      (maxDistance === null || (stay.distanceMeters !== null && stay.distanceMeters <= maxDistance))
+    );
+  });
+}
+
+/**
+ * "Hotel ★4+" when both cities share a value, else one part per city
+ * ("Hotel Mekkah ★5+", "Hotel Madinah ★4+")
+ */
+function describeHotelCriteria(
+  spec: FilterSpec,
+  key: keyof HotelCriteria,
+  format: (value: number) => string,
+  label: string
+): string[] {
+  const [mekkah, madinah] = HARAM_CITY_KEYS.map(cityKey => spec.hotels[cityKey][key]);
+  if (mekkah !== null && mekkah === madinah) return [`${label} ${format(mekkah)}`];
+  return HARAM_CITY_KEYS
+    .filter(cityKey => spec.hotels[cityKey][key] !== null)
+    .map(cityKey => `${label} ${HARAM_CITY_LABELS[cityKey]} ${format(spec.hotels[cityKey][key]!)}`);
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Whether the spec narrows down tiers (cards then highlight the matching ones)
+ */
+export function hasTierCriteria(spec: FilterSpec): boolean {
+  return spec.tiers.length > 0 ||
+    isRangeActive(spec.price) ||
+    HARAM_CITY_KEYS.some(cityKey => isHotelCriteriaActive(spec.hotels[cityKey]));
+}
+
+/**
+ * Spec with one city's hotel requirements changed
+ */
+export function setHotelCriteria(
+  spec: FilterSpec,
+  cityKey: HaramCityKey,
+  changes: Partial<HotelCriteria>
+): FilterSpec {
+  return { ...spec, hotels: { ...spec.hotels, [cityKey]: { ...spec.hotels[cityKey], ...changes } } };
+}
+
+/**
+ * Tiers of a package that pass the tier criteria, in API order
+ * (every priced tier when none are set)
+ */
+export function getMatchingTiers(pkg: UmrohPackage, spec: FilterSpec): string[] {
+  return Object.keys(pkg.priceMatrix).filter(tier => {
+    if (spec.tiers.length > 0 && !includesIgnoreCase(spec.tiers, tier)) return false;
+    if (isRangeActive(spec.price)) {
+      const price = getTierPrice(pkg, tier, spec.priceRoomType);
+      if (price === null || !isInRange(price, spec.price)) return false;
+    }
+    if (!meetsHotelCriteria(pkg, tier, spec.hotels)) return false;
+    return true;
+  });
+}
+
+/**
+ * Lowest price among the matching tiers, for the budget's room type
+ * (null when none is priced)
+ */
+export function getMatchingPrice(pkg: UmrohPackage, spec: FilterSpec): number | null {
+  const prices = getMatchingTiers(pkg, spec)
+    .map(tier => getTierPrice(pkg, tier, spec.priceRoomType))
+    .filter((price): price is number => price !== null);
+  return prices.length > 0 ? Math.min(...prices) : null;
+}
+
+/**
+ * Whether a package passes every active criterion of the spec
+ */
+export function matchesFilterSpec(pkg: UmrohPackage, spec: FilterSpec): boolean {
+  if (spec.availableOnly && pkg.seatSisa <= 0) return false;
+  if (spec.promoOnly && !pkg.isPromo) return false;
+
+  if (spec.airlines.length > 0 && !includesIgnoreCase(spec.airlines, pkg.maskapai)) return false;
+
+  if (spec.landings.length > 0) {
+    const landing = getLandingCity(pkg);
+    if (!includesIgnoreCase(spec.landings, landing.code) && !includesIgnoreCase(spec.landings, landing.name)) {
+      return false;
+    }
+  }
+
+  if (spec.months.from || spec.months.to) {
+    const monthKey = getMonthKey(pkg.keberangkatan.tgl);
+    if (spec.months.from && monthKey < spec.months.from) return false;
+    if (spec.months.to && monthKey > spec.months.to) return false;
+  }
+
+  if (isRangeActive(spec.duration) && !isInRange(calculateDuration(pkg), spec.duration)) return false;
+
+  if (!isTimeInRanges(pkg.keberangkatan.jam, spec.departureTimes)) return false;
+  if (!isTimeInRanges(pkg.kepulangan.jam, spec.returnTimes)) return false;
+
+  if (spec.seasons.length > 0) {
+    const seasons = getPackageSeasons(pkg);
+    if (!spec.seasons.some(season => seasons.includes(season))) return false;
+  }
+
+  const name = pkg.nama.toLowerCase();
+  if (spec.nameKeywords.some(keyword => !name.includes(keyword.toLowerCase()))) return false;
+
+  if (hasTierCriteria(spec) && getMatchingTiers(pkg, spec).length === 0) return false;
+
+  return matchesSearch(pkg, spec.search);
+}
+
+/**
+ * Packages passing the spec, in the spec's order (new array; ties keep
+ * departure date order)
+ */
+export function applyFilterSpec(packages: UmrohPackage[], spec: FilterSpec): UmrohPackage[] {
+  const result = packages
+    .filter(pkg => matchesFilterSpec(pkg, spec))
+    .sort((a, b) => a.keberangkatan.tgl.localeCompare(b.keberangkatan.tgl));
+
+  if (spec.sort === 'seat') {
+    return result.sort((a, b) => a.seatSisa - b.seatSisa);
+  }
+  if (spec.sort === 'price') {
+    const prices = new Map(result.map(pkg => [pkg, getMatchingPrice(pkg, spec) ?? Infinity]));
+    return result.sort((a, b) => {
+      const priceA = prices.get(a)!;
+      const priceB = prices.get(b)!;
+      return priceA === priceB ? 0 : priceA < priceB ? -1 : 1;
+    });
+  }
+  return result;
+}
+
+/**
+ * Number of criteria set beyond the default list (search not counted)
+ */
+export function countFilterCriteria(spec: FilterSpec): number {
+  return [
+    spec.airlines.length > 0,
+    spec.landings.length > 0,
+    !!(spec.months.from || spec.months.to),
+    spec.promoOnly,
+    spec.availableOnly !== DEFAULT_FILTER_SPEC.availableOnly,
+    isRangeActive(spec.price),
+    HARAM_CITY_KEYS.some(cityKey => spec.hotels[cityKey].minStars !== null),
+    HARAM_CITY_KEYS.some(cityKey => spec.hotels[cityKey].maxDistance !== null),
+    isRangeActive(spec.duration),
+    spec.departureTimes.length > 0,
+    spec.returnTimes.length > 0,
+    spec.tiers.length > 0,
+    spec.seasons.length > 0,
+    spec.nameKeywords.length > 0,
+    spec.sort !== DEFAULT_FILTER_SPEC.sort,
+  ].filter(Boolean).length;
+}
+
+/**
+ * Whether a quick filter preset is on in the spec
+ */
+export function isQuickFilterActive(spec: FilterSpec, filter: QuickFilterType): boolean {
+  switch (filter) {
+    case 'promo':
+      return spec.promoOnly;
+    case 'urgent':
+      return spec.sort === 'seat';
+    case 'termurah':
+      return spec.sort === 'price';
+    case 'rahmah':
+      return spec.nameKeywords.includes(RAHMAH_KEYWORD);
+    default:
+      return spec.seasons.includes(filter);
+  }
+}
+
+/**
+ * Spec with a quick filter preset switched on or off (presets combine;
+ * urgent and termurah replace each other as they set the sort)
+ */
+export function toggleQuickFilter(spec: FilterSpec, filter: QuickFilterType): FilterSpec {
+  const active = isQuickFilterActive(spec, filter);
+  switch (filter) {
+    case 'promo':
+      return { ...spec, promoOnly: !active };
+    case 'urgent':
+      return { ...spec, sort: active ? 'date' : 'seat' };
+    case 'termurah':
+      return { ...spec, sort: active ? 'date' : 'price' };
+    case 'rahmah':
+      return {
+        ...spec,
+        nameKeywords: active
+          ? spec.nameKeywords.filter(keyword => keyword !== RAHMAH_KEYWORD)
+          : [...spec.nameKeywords, RAHMAH_KEYWORD],
+      };
+    default:
+      return {
+        ...spec,
+        seasons: active ? spec.seasons.filter(season => season !== filter) : [...spec.seasons, filter],
+      };
+  }
+}
+
+/**
+ * "Juni 2026", "Juni – Agustus 2026", "Des 2026 – Jan 2027" style month span
+ */
+export function formatMonthRange(months: FilterSpec['months']): string {
+  const { from, to } = months;
+  if (from && to) {
+    if (from === to) return formatMonthName(from);
+    const [fromMonth, fromYear] = formatMonthName(from).split(' ');
+    return fromYear === to.slice(0, 4)
+      ? `${fromMonth} – ${formatMonthName(to)}`
+      : `${formatMonthName(from)} – ${formatMonthName(to)}`;
+  }
+  if (from) return `Mulai ${formatMonthName(from)}`;
+  if (to) return `Sampai ${formatMonthName(to)}`;
+  return '';
+}
+
+/**
+ * Active criteria in words, e.g.
+ * "Seat tersedia · Landing Madinah · Juni 2026 · Promo · Cari: turki"
+ */
+export function describeFilterSpec(spec: FilterSpec): string {
+  const parts = [spec.availableOnly ? 'Seat tersedia' : 'Semua paket'];
+
+  if (spec.landings.length > 0) parts.push(`Landing ${spec.landings.map(getCityName).join('/')}`);
+  if (spec.months.from || spec.months.to) parts.push(formatMonthRange(spec.months));
+  if (spec.promoOnly) parts.push('Promo');
+  if (spec.airlines.length > 0) parts.push(spec.airlines.join('/'));
+  if (spec.tiers.length > 0) parts.push(`Paket ${spec.tiers.join('/')}`);
+  if (isRangeActive(spec.price)) {
+    const roomType = spec.priceRoomType ? ` ${ROOM_TYPE_LABELS[spec.priceRoomType]}` : '';
+    parts.push(`Harga${roomType} ${formatRange(spec.price, formatMillions)}`);
+  }
+  parts.push(...describeHotelCriteria(spec, 'minStars', stars => `★${stars}+`, 'Hotel'));
+  parts.push(...describeHotelCriteria(spec, 'maxDistance', meters => `≤ ${formatDistance(meters)}`, 'Jarak'));
+  if (isRangeActive(spec.duration)) parts.push(`Durasi ${formatRange(spec.duration, String, 'hari')}`);
+  spec.seasons.forEach(season => parts.push(SEASON_LABELS[season].label));
+  spec.nameKeywords.forEach(keyword =>
+    parts.push(keyword === RAHMAH_KEYWORD ? 'Paket Rahmah' : `Nama: ${keyword}`)
+  );
+  if (spec.departureTimes.length > 0) parts.push(`Jam berangkat ${spec.departureTimes.join(', ')}`);
+  if (spec.returnTimes.length > 0) parts.push(`Jam pulang ${spec.returnTimes.join(', ')}`);
+  if (spec.sort !== DEFAULT_FILTER_SPEC.sort) parts.push(SORT_LABELS[spec.sort]);
+  if (spec.search.trim()) parts.push(`Cari: ${spec.search.trim()}`);
+
+  return parts.join(' · ');
+}
+
+/**
+ * Type guard for quick filter ids (URL params, saved state)
+ */
+export function isQuickFilterType(value: unknown): value is QuickFilterType {
+  return QUICK_FILTERS.includes(value as QuickFilterType) || isSeasonType(value);
+}
@@ -0,0 +1,161 @@
+/**
+ * Hijri Calendar Utilities (Umm al-Qura)
+ * Gregorian → Hijri conversion from the official Umm al-Qura calendar of
+ * Saudi Arabia, the one pilgrims meet in Makkah and Madinah. A lookup table
+ * keeps it exact and offline (no Intl calendar support needed); dates
+ * outside the table have no Hijri date rather than a guessed one.
+ *
+ * Table data: 1 Muharram and month lengths per year, taken from the ICU
+ * "islamic-umalqura" calendar.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface HijriDate {
+  year: number;
+  /** 1 = Muharram … 12 = Dzulhijjah */
+  month: number;
+  day: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** Hijri month names */
+export const HIJRI_MONTH_NAMES = [
+  'Muharram', 'Safar', 'Rabiul Awal', 'Rabiul Akhir',
+  'Jumadil Awal', 'Jumadil Akhir', 'Rajab', 'Syaban',
+  'Ramadhan', 'Syawal', 'Dzulqaidah', 'Dzulhijjah'
+];
+
+/** Short Hijri month names (compact cards, digest lines) */
+const HIJRI_MONTH_NAMES_SHORT = [
+  'Muh', 'Saf', 'R.Awal', 'R.Akhir',
+  'J.Awal', 'J.Akhir', 'Raj', 'Sya',
+  'Ram', 'Syaw', 'Dzulq', 'Dzulh'
+];
+
+/**
+ * [Hijri year, Gregorian date of 1 Muharram, 30-day months]
+ * Bit n of the mask is set when month n + 1 has 30 days (29 otherwise).
+ */
+const UMM_AL_QURA_YEARS: [number, string, number][] = [
+  [1440, '2018-09-11', 0b001010111010],
+  [1441, '2019-08-31', 0b010110110101],
+  [1442, '2020-08-20', 0b010110101010],
+  [1443, '2021-08-09', 0b110101010101],
+  [1444, '2022-07-30', 0b101010011010],
+  [1445, '2023-07-19', 0b100100101110],
+  [1446, '2024-07-07', 0b001001101110],
+  [1447, '2025-06-26', 0b010101011101],
+  [1448, '2026-06-16', 0b101011011010],
+  [1449, '2027-06-06', 0b011011010100],
+  [1450, '2028-05-25', 0b011010100101],
+  [1451, '2029-05-14', 0b101100100111],
+  [1452, '2030-05-04', 0b101001001101],
+  [1453, '2031-04-23', 0b010010101101],
+  [1454, '2032-04-11', 0b010101101101],
+  [1455, '2033-04-01', 0b101101011010],
+  [1456, '2034-03-22', 0b011101010100],
+  [1457, '2035-03-11', 0b111101001001],
+  [1458, '2036-02-29', 0b111010010010],
+  [1459, '2037-02-17', 0b110100100110],
+  [1460, '2038-02-06', 0b101001010110],
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Helpers
+// ============================================
+
+/** "2026-06-16" (time part ignored) → days since 1970-01-01, null when invalid */
+function toDayNumber(dateStr: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(dateStr || '');
+  if (!match) return null;
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / DAY_MS;
+}
+
+function getMonthLength(mask: number, monthIndex: number): number {
+  return mask & (1 << monthIndex) ? 30 : 29;
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Umm al-Qura date of a "YYYY-MM-DD" date (null outside 1440–1460 AH)
+ */
+export function toHijri(dateStr: string): HijriDate | null {
+  const dayNumber = toDayNumber(dateStr);
+  if (dayNumber === null) return null;
+
+  for (let i = UMM_AL_QURA_YEARS.length - 1; i >= 0; i--) {
+    const [year, startDate, mask] = UMM_AL_QURA_YEARS[i];
+    let offset = dayNumber - toDayNumber(startDate)!;
+    if (offset < 0) continue;
+
+    for (let month = 0; month < 12; month++) {
+      const length = getMonthLength(mask, month);
+      if (offset < length) return { year, month: month + 1, day: offset + 1 };
+      offset -= length;
+    }
+    // Past the end of the last year in the table
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * Gregorian "YYYY-MM-DD" of an Umm al-Qura date (null outside 1440–1460 AH
+ * or for a day past the end of the month)
+ */
+export function toGregorian(hijri: HijriDate): string | null {
+  const entry = UMM_AL_QURA_YEARS.find(([year]) => year === hijri.year);
+  if (!entry || hijri.month < 1 || hijri.month > 12) return null;
+
+  const [, startDate, mask] = entry;
+  if (hijri.day < 1 || hijri.day > getMonthLength(mask, hijri.month - 1)) return null;
+
+  let dayNumber = toDayNumber(startDate)! + hijri.day - 1;
+  for (let month = 0; month < hijri.month - 1; month++) {
+    dayNumber += getMonthLength(mask, month);
+  }
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * "21 Dzulhijjah 1447 H" (short: "21 Dzulh 1447 H"); '' when unknown
+ */
+export function formatHijriDate(dateStr: string, month: 'long' | 'short' = 'long'): string {
+  const hijri = toHijri(dateStr);
+  if (!hijri) return '';
+  const names = month === 'long' ? HIJRI_MONTH_NAMES : HIJRI_MONTH_NAMES_SHORT;
+  return `${hijri.day} ${names[hijri.month - 1]} ${hijri.year} H`;
+}
+
+/**
+ * Hijri month(s) a set of dates falls in, e.g. "Rajab 1448",
+ * "Rajab – Syaban 1448" or "Dzulhijjah 1447 – Muharram 1448"; '' when unknown
+ */
+export function formatHijriMonthSpan(dates: string[]): string {
+  const hijriDates = dates
+    .map(toHijri)
+    .filter((date): date is HijriDate => date !== null)
+    .sort((a, b) => a.year - b.year || a.month - b.month);
+  if (hijriDates.length === 0) return '';
+
+  const first = hijriDates[0];
+  const last = hijriDates[hijriDates.length - 1];
+  const firstName = HIJRI_MONTH_NAMES[first.month - 1];
+  const lastName = HIJRI_MONTH_NAMES[last.month - 1];
+
+  if (first.year !== last.year) return `${firstName} ${first.year} – ${lastName} ${last.year}`;
+  if (first.month !== last.month) return `${firstName} – ${lastName} ${first.year}`;
+  return `${firstName} ${first.year}`;
+}
@@ -3,3 +3,19 @@
  */
 
 export * from './filter-logic';
+export * from './filter-spec';
+export * from './pricing';
+export * from './compare';
+export * from './url-state';
+export * from './package-preview';
+export * from './agent-identity';
+export * from './share-template';
+export * from './share-message';
+export * from './digest';
+export * from './schedule-pdf';
+export * from './dataset-export';
+export * from './calendar';
+export * from './calendar-feed';
+export * from './hijri';
+export * from './season';
+export * from './distance';
@@ -0,0 +1,86 @@
+/**
+ * Package Preview Utilities
+ * One-line facts about a package for link previews (OG tags and the
+ * OG image). Runs in the browser and in Pages Functions, so dates are
+ * formatted by hand instead of relying on the runtime's ICU data.
+ */
+
+import type { UmrohPackage } from '../types/umroh-package';
+import { formatPriceMillions, getStartingPrice } from './pricing';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PackagePreview {
+  /** Package name (e.g. "UMROH PLUS TURKI 12 HARI") */
+  name: string;
+  /** Airline name, '-' when unknown */
+  airline: string;
+  /** Departure date (e.g. "12 Okt 2026") */
+  departureDate: string;
+  /** Return date (e.g. "23 Okt 2026") */
+  returnDate: string;
+  /** Starting price (e.g. "mulai Rp 35.9 jt"), null without a price */
+  startingPrice: string | null;
+  /** Seats left (e.g. "Sisa 12 kursi", "Kursi penuh") */
+  seats: string;
+  /** All facts joined for og:description */
+  description: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const SHORT_MONTH_NAMES_ID = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'Mei', 'Jun',
+  'Jul', 'Agu', 'Sep', 'Okt', 'Nov', 'Des',
+];
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Format "YYYY-MM-DD" as "12 Okt 2026" ('-' when empty or invalid)
+ */
+function formatPreviewDate(dateStr: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(dateStr || '');
+  if (!match) return '-';
+  const [, year, month, day] = match;
+  const monthName = SHORT_MONTH_NAMES_ID[parseInt(month, 10) - 1];
+  return monthName ? `${parseInt(day, 10)} ${monthName} ${year}` : '-';
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Build the link preview facts for a package
+ */
+export function buildPackagePreview(pkg: UmrohPackage): PackagePreview {
+  const price = getStartingPrice(pkg)?.price ?? null;
+  const startingPrice = price ? `mulai Rp ${formatPriceMillions(price)} jt` : null;
+  const seats = pkg.seatSisa > 0 ? `Sisa ${pkg.seatSisa} kursi` : 'Kursi penuh';
+  const departureDate = formatPreviewDate(pkg.keberangkatan.tgl);
+  const airline = pkg.maskapai || '-';
+
+  const description = [
+    `Berangkat ${departureDate}`,
+    airline !== '-' ? airline : null,
+    startingPrice,
+    seats,
+  ].filter(Boolean).join(' • ');
+
+  return {
+    name: pkg.nama,
+    airline,
+    departureDate,
+    returnDate: formatPreviewDate(pkg.kepulangan.tgl),
+    startingPrice,
+    seats,
+    description,
+  };
+}
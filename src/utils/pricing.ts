@@ -0,0 +1,142 @@
+/**
+ * Pricing Utilities for Umroh Packages
+ * Single source for the "mulai" (starting from) price used by the card
+ * header, the price sorts and the share text.
+ */
+
+import type { PackagePricing, PriceMatrix, RoomType, UmrohPackage } from '../types/umroh-package';
+
+// ============================================
+// Types
+// ============================================
+
+export interface StartingPrice {
+  /** Tier that holds the lowest price (e.g. "HEMAT") */
+  tier: string;
+  /** Room type of the lowest price */
+  roomType: RoomType;
+  /** Price in Rupiah */
+  price: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** All room types, in the order the API sends them */
+export const ROOM_TYPES: RoomType[] = ['Single', 'Double', 'Triple', 'Quard', 'Infant'];
+
+/**
+ * Room types that count for the starting price
+ * (per-person shared rooms; Single is a surcharge, Infant isn't an adult seat)
+ */
+export const STARTING_PRICE_ROOM_TYPES: RoomType[] = ['Quard', 'Triple', 'Double'];
+
+/** Display labels (the API spells Quad as "Quard") */
+export const ROOM_TYPE_LABELS: Record<RoomType, string> = {
+  Single: 'Single',
+  Double: 'Double',
+  Triple: 'Triple',
+  Quard: 'Quad',
+  Infant: 'Infant',
+};
+
+// ============================================
+// Functions
+// ============================================
+
+/**
+ * Build the numeric tier × room type matrix from API price strings
+ * Missing, empty, non-numeric and zero prices become null
+ */
+export function buildPriceMatrix(harga: PackagePricing): PriceMatrix {
+  const matrix: PriceMatrix = {};
+
+  for (const [tier, pricing] of Object.entries(harga)) {
+    const row = {} as Record<RoomType, number | null>;
+    for (const roomType of ROOM_TYPES) {
+      const price = parseInt(pricing[roomType] || '', 10);
+      row[roomType] = Number.isFinite(price) && price > 0 ? price : null;
+    }
+    matrix[tier] = row;
+  }
+
+  return matrix;
+}
+
+/**
+ * Lowest starting price within one tier
+ */
+export function getTierStartingPrice(pkg: UmrohPackage, tier: string): StartingPrice | null {
+  const row = pkg.priceMatrix[tier];
+  if (!row) return null;
+
+  let best: StartingPrice | null = null;
+  for (const roomType of STARTING_PRICE_ROOM_TYPES) {
+    const price = row[roomType];
+    if (price !== null && (best === null || price < best.price)) {
+      best = { tier, roomType, price };
+    }
+  }
+  return best;
+}
+
+/**
+ * Lowest starting price across all tiers ("mulai Rp X")
+ * Ties keep the first tier in API order
+ */
+export function getStartingPrice(pkg: UmrohPackage): StartingPrice | null {
+  let best: StartingPrice | null = null;
+  for (const tier of Object.keys(pkg.priceMatrix)) {
+    const candidate = getTierStartingPrice(pkg, tier);
+    if (candidate && (best === null || candidate.price < best.price)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+/**
+ * Price of one room type in a tier, or the tier's starting price when no
+ * room type is given (null when not offered)
+ */
+export function getTierPrice(pkg: UmrohPackage, tier: string, roomType: RoomType | null): number | null {
+  if (roomType === null) return getTierStartingPrice(pkg, tier)?.price ?? null;
+  return pkg.priceMatrix[tier]?.[roomType] ?? null;
+}
+
+/**
+ * Lowest and highest price across all tiers of the packages, for one room
+ * type or the starting prices (null when nothing is priced)
+ */
+export function getPriceBounds(
+  packages: UmrohPackage[],
+  roomType: RoomType | null
+): { min: number; max: number } | null {
+  const prices = packages.flatMap(pkg =>
+    Object.keys(pkg.priceMatrix)
+      .map(tier => getTierPrice(pkg, tier, roomType))
+      .filter((price): price is number => price !== null)
+  );
+  if (prices.length === 0) return null;
+  return { min: Math.min(...prices), max: Math.max(...prices) };
+}
+
+/**
+ * Sort comparator by starting price (ascending, packages without price last)
+ */
+export function compareByStartingPrice(a: UmrohPackage, b: UmrohPackage): number {
+  const priceA = getStartingPrice(a)?.price ?? Infinity;
+  const priceB = getStartingPrice(b)?.price ?? Infinity;
+  if (priceA === priceB) return 0;
+  return priceA < priceB ? -1 : 1;
+}
+
+/**
+ * Format price to "X.Y" millions for compact headers (e.g. 35900000 -> "35.9")
+ */
+export function formatPriceMillions(price: number | null): string {
+  if (!price) return '-';
+  const millions = price / 1000000;
+  return parseFloat(millions.toFixed(1)).toString();
+}
@@ -0,0 +1,272 @@
+/**
+ * Schedule PDF Export
+ * Printable A4 schedule of a package list, generated in the browser so it
+ * also works offline in the PWA. jsPDF and jspdf-autotable are imported on
+ * first use to keep them out of the main bundle.
+ *
+ * Layout: cover (agent branding, filter summary), then one section per
+ * departure month (groupByMonth) with a table of flights, hotels per tier,
+ * prices per tier and seat status.
+ */
+
+import type { UmrohPackage, FlightInfo } from '../types/umroh-package';
+import type { AgentData } from '../data/agents';
+import { groupByMonth } from './filter-logic';
+import { ROOM_TYPE_LABELS, STARTING_PRICE_ROOM_TYPES } from './pricing';
+import { formatHijriDate } from './hijri';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SchedulePdfOptions {
+  /** Hijri year of the list (e.g. "1448") */
+  year: string;
+  /** Active filters in words (e.g. "Landing Madinah · Cari: turki") */
+  filterSummary?: string;
+  agent?: AgentData | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const BRAND_LOGO_URL = '/icon-192x192.png';
+
+/** Brand colors (RGB) */
+const COLOR_PRIMARY: [number, number, number] = [5, 150, 105];
+const COLOR_DARK: [number, number, number] = [17, 24, 39];
+const COLOR_MUTED: [number, number, number] = [107, 114, 128];
+
+const PAGE_MARGIN = 12;
+
+/** Room types in the price column, cheapest first */
+const PRICE_ROOM_TYPES = [...STARTING_PRICE_ROOM_TYPES, 'Infant' as const];
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Image URL (same-origin or data URL) as a PNG data URL, null on failure
+ */
+async function loadImageDataUrl(url: string): Promise<string | null> {
+  if (!url) return null;
+
+  return new Promise(resolve => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        canvas.getContext('2d')?.drawImage(image, 0, 0);
+        resolve(canvas.toDataURL('image/png'));
+      } catch {
+        // Tainted canvas (cross-origin photo without CORS)
+        resolve(null);
+      }
+    };
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+}
+
+function formatDate(dateStr: string, month: 'short' | 'long' = 'short'): string {
+  if (!dateStr) return '-';
+  return new Date(dateStr).toLocaleDateString('id-ID', { day: 'numeric', month, year: 'numeric' });
+}
+
+function formatRupiah(price: number): string {
+  return `Rp ${new Intl.NumberFormat('id-ID').format(price)}`;
+}
+
+function formatFlight(flight: FlightInfo): string {
+  return [
+    `${formatDate(flight.tgl)} ${flight.jam || ''}`.trim(),
+    formatHijriDate(flight.tgl, 'short'),
+    [flight.kodePenerbangan, flight.rute].filter(Boolean).join(' · ') || '-',
+  ].filter(Boolean).join('\n');
+}
+
+/** "GOLD: Madinah Taiba (4*), Mekkah Hilton (5*)" per tier */
+function formatHotels(pkg: UmrohPackage): string {
+  return Object.entries(pkg.hotel)
+    .map(([tier, stays]) => {
+      const hotels = stays
+        .map(stay => `${stay.city} ${stay.hotelName}${stay.stars ? ` (${stay.stars}*)` : ''}`)
+        .join(', ');
+      return `${tier}: ${hotels || '-'}`;
+    })
+    .join('\n') || '-';
+}
+
+/** "GOLD  Quad Rp 35.900.000 / Triple …" per tier */
+function formatPrices(pkg: UmrohPackage): string {
+  return Object.entries(pkg.priceMatrix)
+    .map(([tier, row]) => {
+      const prices = PRICE_ROOM_TYPES
+        .filter(type => row[type])
+        .map(type => `${ROOM_TYPE_LABELS[type]} ${formatRupiah(row[type]!)}`);
+      return `${tier}\n${prices.join('\n') || '-'}`;
+    })
+    .join('\n') || '-';
+}
+
+function formatSeatStatus(pkg: UmrohPackage): string {
+  if (pkg.seatSisa <= 0) return `PENUH\n0/${pkg.seatTotal}`;
+  const percentage = pkg.seatTotal > 0 ? pkg.seatSisa / pkg.seatTotal : 0;
+  const label = percentage <= 0.25 ? 'TERBATAS' : 'TERSEDIA';
+  return `${label}\n${pkg.seatSisa}/${pkg.seatTotal}`;
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Build the schedule PDF and start the download
+ */
+export async function exportSchedulePdf(packages: UmrohPackage[], options: SchedulePdfOptions): Promise<void> {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const { year, filterSummary, agent = null } = options;
+
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const groups = groupByMonth(packages);
+
+  const [logo, agentPhoto] = await Promise.all([
+    loadImageDataUrl(BRAND_LOGO_URL),
+    agent?.photo ? loadImageDataUrl(agent.photo) : Promise.resolve(null),
+  ]);
+
+  // ─── COVER ───
+  doc.setFillColor(...COLOR_PRIMARY);
+  doc.rect(0, 0, pageWidth, 90, 'F');
+  if (logo) doc.addImage(logo, 'PNG', PAGE_MARGIN, 18, 22, 22);
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(26);
+  doc.text('Jadwal Umroh', PAGE_MARGIN, 58);
+  doc.setFontSize(16);
+  doc.text(`Alhijaz Indowisata · ${year} H`, PAGE_MARGIN, 68);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.text(`${packages.length} paket · ${groups.length} bulan keberangkatan`, PAGE_MARGIN, 78);
+
+  let y = 108;
+  doc.setTextColor(...COLOR_MUTED);
+  doc.setFontSize(10);
+  if (filterSummary) {
+    doc.text(`Filter: ${filterSummary}`, PAGE_MARGIN, y);
+    y += 6;
+  }
+  doc.text(`Dicetak ${formatDate(new Date().toISOString(), 'long')} · harga & seat dapat berubah sewaktu-waktu`, PAGE_MARGIN, y);
+
+  // Month overview
+  autoTable(doc, {
+    startY: y + 8,
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    head: [['Bulan', 'Paket', 'Seat tersedia']],
+    body: groups.map(group => [
+      `${group.monthName}${group.monthNameHijri ? ` (${group.monthNameHijri})` : ''}`,
+      String(group.packageCount),
+      `${group.availableSeat}/${group.totalSeat}`,
+    ]),
+    theme: 'striped',
+    headStyles: { fillColor: COLOR_PRIMARY },
+    styles: { fontSize: 10 },
+  });
+
+  // Agent card at the bottom of the cover
+  if (agent) {
+    const cardY = pageHeight - 62;
+    doc.setDrawColor(229, 231, 235);
+    doc.setFillColor(249, 250, 251);
+    doc.roundedRect(PAGE_MARGIN, cardY, pageWidth - PAGE_MARGIN * 2, 40, 4, 4, 'FD');
+
+    const textX = agentPhoto ? PAGE_MARGIN + 40 : PAGE_MARGIN + 8;
+    if (agentPhoto) doc.addImage(agentPhoto, 'PNG', PAGE_MARGIN + 8, cardY + 6, 28, 28);
+
+    doc.setTextColor(...COLOR_MUTED);
+    doc.setFontSize(9);
+    doc.text('Info & pendaftaran', textX, cardY + 11);
+    doc.setTextColor(...COLOR_DARK);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(15);
+    doc.text(agent.name, textX, cardY + 19);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.text(`WhatsApp: +${agent.phone}`, textX, cardY + 27);
+    if (agent.website) doc.text(agent.website, textX, cardY + 34);
+  }
+
+  // ─── MONTH SECTIONS ───
+  for (const group of groups) {
+    doc.addPage();
+    doc.setTextColor(...COLOR_DARK);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.text(group.monthName, PAGE_MARGIN, 20);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(...COLOR_MUTED);
+    doc.text(
+      [group.monthNameHijri, `${group.packageCount} paket`, `${group.availableSeat}/${group.totalSeat} seat tersedia`]
+        .filter(Boolean)
+        .join(' · '),
+      PAGE_MARGIN,
+      26
+    );
+
+    autoTable(doc, {
+      startY: 31,
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: 16, bottom: 16 },
+      head: [['Paket', 'Berangkat', 'Pulang', 'Hotel', 'Harga', 'Seat']],
+      body: group.packages.map(pkg => [
+        `${pkg.nama}\n${pkg.maskapai || '-'}\n${pkg.jadwalId}${pkg.isPromo ? ' · PROMO' : ''}`,
+        formatFlight(pkg.keberangkatan),
+        formatFlight(pkg.kepulangan),
+        formatHotels(pkg),
+        formatPrices(pkg),
+        formatSeatStatus(pkg),
+      ]),
+      theme: 'grid',
+      rowPageBreak: 'avoid',
+      headStyles: { fillColor: COLOR_PRIMARY, fontSize: 8 },
+      styles: { fontSize: 7, cellPadding: 1.5, valign: 'top', overflow: 'linebreak' },
+      columnStyles: {
+        0: { cellWidth: 34, fontStyle: 'bold' },
+        1: { cellWidth: 26 },
+        2: { cellWidth: 26 },
+        3: { cellWidth: 'auto' },
+        4: { cellWidth: 36 },
+        5: { cellWidth: 18, halign: 'center' },
+      },
+      didParseCell: data => {
+        if (data.section !== 'body' || data.column.index !== 5) return;
+        const status = String(data.cell.raw).split('\n')[0];
+        if (status === 'PENUH') data.cell.styles.textColor = [220, 38, 38];
+        else if (status === 'TERBATAS') data.cell.styles.textColor = [217, 119, 6];
+        else data.cell.styles.textColor = COLOR_PRIMARY;
+      },
+    });
+  }
+
+  // ─── FOOTER ON EVERY PAGE ───
+  const pageCount = doc.getNumberOfPages();
+  const contact = agent ? `${agent.name} · wa.me/${agent.phone}` : 'Alhijaz Indowisata';
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...COLOR_MUTED);
+    doc.text(contact, PAGE_MARGIN, pageHeight - 7);
+    doc.text(`Halaman ${page} dari ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 7, { align: 'right' });
+  }
+
+  doc.save(`jadwal-umroh-${year}.pdf`);
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import type { UmrohPackage } from '../types/umroh-package';
+import { getPackageSeasons } from './season';
+
+const trip = (departure: string, arrival: string) => ({
+  keberangkatan: { tgl: departure, jam: '09.00', rute: 'CGK - JED', kodePenerbangan: 'SV 817' },
+  kepulangan: { tgl: arrival, jam: '20.00', rute: 'JED - CGK', kodePenerbangan: 'SV 816' },
+}) as UmrohPackage;
+
+describe('getPackageSeasons', () => {
+  it('tags post-Hajj departures in Dzulhijjah', () => {
+    expect(getPackageSeasons(trip('2026-06-05', '2026-06-16'))).toContain('pasca-haji');
+  });
+
+  it('keeps the post-Hajj window into early Muharram', () => {
+    expect(getPackageSeasons(trip('2026-06-18', '2026-06-29'))).toContain('pasca-haji');
+    expect(getPackageSeasons(trip('2026-06-21', '2026-07-02'))).toContain('pasca-haji');
+    expect(getPackageSeasons(trip('2026-06-25', '2026-07-06'))).not.toContain('pasca-haji');
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Season Utilities
+ * Islamic-calendar and holiday seasons of a package, from its departure
+ * and return dates mapped to Umm al-Qura dates (see hijri):
+ *
+ * - ramadhan:      in the Holy Land during Ramadan
+ * - itikaf:        there from the 21st night until the end of Ramadan
+ * - syawal:        departs in Syawal (after Eid)
+ * - libur-sekolah: departs in the Indonesian school holidays
+ * - pra-haji:      one of the last trips home before umrah closes for Hajj
+ * - pasca-haji:    one of the first trips after umrah reopens
+ */
+
+import type { UmrohPackage } from '../types/umroh-package';
+import { toGregorian, toHijri } from './hijri';
+
+// ============================================
+// Types
+// ============================================
+
+export type SeasonType = 'ramadhan' | 'itikaf' | 'syawal' | 'libur-sekolah' | 'pra-haji' | 'pasca-haji';
+
+// ============================================
+// Constants
+// ============================================
+
+export const SEASON_TYPES: SeasonType[] = ['ramadhan', 'itikaf', 'syawal', 'libur-sekolah', 'pra-haji', 'pasca-haji'];
+
+/** Labels for filters and summaries, short labels for card badges */
+export const SEASON_LABELS: Record<SeasonType, { label: string; shortLabel: string; description: string }> = {
+  'ramadhan': {
+    label: 'Umroh Ramadhan',
+    shortLabel: 'Ramadhan',
+    description: 'Di Tanah Suci saat bulan Ramadhan',
+  },
+  'itikaf': {
+    label: "I'tikaf 10 Malam Terakhir",
+    shortLabel: "I'tikaf",
+    description: 'Di Tanah Suci sejak malam ke-21 hingga akhir Ramadhan',
+  },
+  'syawal': {
+    label: 'Umroh Syawal',
+    shortLabel: 'Syawal',
+    description: 'Berangkat setelah Idul Fitri',
+  },
+  'libur-sekolah': {
+    label: 'Libur Sekolah',
+    shortLabel: 'Libur Sekolah',
+    description: 'Berangkat saat libur sekolah (Jun–Jul, Des–Jan)',
+  },
+  'pra-haji': {
+    label: 'Sebelum Musim Haji',
+    shortLabel: 'Pra-Haji',
+    description: 'Pulang sebelum umroh ditutup untuk musim haji',
+  },
+  'pasca-haji': {
+    label: 'Setelah Musim Haji',
+    shortLabel: 'Pasca-Haji',
+    description: 'Berangkat di awal musim umroh setelah haji',
+  },
+};
+
+/**
+ * Umrah closure around Hajj (Hijri month/day): pilgrims on umrah visas
+ * must have left by the start, new umrah trips resume at the end. Set by
+ * the Saudi Ministry of Hajj each year; these follow the recent seasons.
+ */
+const HAJJ_CLOSURE_START = { month: 11, day: 1 };
+const HAJJ_CLOSURE_END = { month: 12, day: 15 };
+
+/** Length of the pre-/post-Hajj windows next to the closure */
+const HAJJ_WINDOW_DAYS = 21;
+
+/**
+ * Indonesian school holidays (MM-DD, inclusive): end of the school year
+ * and the semester break. Dates differ slightly per province.
+ */
+const SCHOOL_HOLIDAYS: { from: string; to: string }[] = [
+  { from: '06-20', to: '07-15' },
+  { from: '12-20', to: '12-31' },
+  { from: '01-01', to: '01-05' },
+];
+
+// ============================================
+// Helpers
+// ============================================
+
+export function isSeasonType(value: unknown): value is SeasonType {
+  return SEASON_TYPES.includes(value as SeasonType);
+}
+
+function addDays(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function isSchoolHoliday(dateStr: string): boolean {
+  const monthDay = dateStr.slice(5, 10);
+  return SCHOOL_HOLIDAYS.some(holiday => monthDay >= holiday.from && monthDay <= holiday.to);
+}
+
+/**
+ * Seasons of one Hijri year the trip [departure, return] falls in
+ * (dates are "YYYY-MM-DD", so they compare as strings)
+ */
+function getYearSeasons(year: number, departure: string, arrival: string): SeasonType[] {
+  const seasons: SeasonType[] = [];
+  const ramadanStart = toGregorian({ year, month: 9, day: 1 });
+  const syawalStart = toGregorian({ year, month: 10, day: 1 });
+  const dzulqaidahStart = toGregorian({ year, month: 11, day: 1 });
+  const night21 = toGregorian({ year, month: 9, day: 20 });
+  const closureStart = toGregorian({ year, ...HAJJ_CLOSURE_START });
+  const closureEnd = toGregorian({ year, ...HAJJ_CLOSURE_END });
+
+  if (ramadanStart && syawalStart && departure < syawalStart && arrival >= ramadanStart) {
+    seasons.push('ramadhan');
+  }
+  // The 21st night starts at sunset on 20 Ramadan; stay until the last day
+  if (night21 && syawalStart && departure <= night21 && arrival >= addDays(syawalStart, -1)) {
+    seasons.push('itikaf');
+  }
+  if (syawalStart && dzulqaidahStart && departure >= syawalStart && departure < dzulqaidahStart) {
+    seasons.push('syawal');
+  }
+  if (closureStart && arrival < closureStart && arrival >= addDays(closureStart, -HAJJ_WINDOW_DAYS)) {
+    seasons.push('pra-haji');
+  }
+  if (closureEnd && departure >= closureEnd && departure < addDays(closureEnd, HAJJ_WINDOW_DAYS)) {
+    seasons.push('pasca-haji');
+  }
+
+  return seasons;
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Seasons of a package, in SEASON_TYPES order ([] when the dates are
+ * missing or outside the Hijri table)
+ */
+export function getPackageSeasons(pkg: UmrohPackage): SeasonType[] {
+  const departure = pkg.keberangkatan.tgl;
+  const arrival = pkg.kepulangan.tgl || departure;
+  const departureHijri = toHijri(departure);
+  if (!departureHijri) return [];
+
+  // A trip can span the Hijri new year (Dzulhijjah → Muharram), and the
+  // post-Hajj window of the previous year runs into Muharram
+  const years = new Set([
+    departureHijri.year - 1,
+    departureHijri.year,
+    toHijri(arrival)?.year ?? departureHijri.year,
+  ]);
+  const seasons = new Set<SeasonType>();
+  for (const year of years) {
+    getYearSeasons(year, departure, arrival).forEach(season => seasons.add(season));
+  }
+  if (isSchoolHoliday(departure)) seasons.add('libur-sekolah');
+
+  return SEASON_TYPES.filter(season => seasons.has(season));
+}
+
+/**
+ * Packages in a season
+ */
+export function filterBySeason(packages: UmrohPackage[], season: SeasonType): UmrohPackage[] {
+  return packages.filter(pkg => getPackageSeasons(pkg).includes(season));
+}
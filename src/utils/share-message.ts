@@ -0,0 +1,223 @@
+/**
+ * Share Message Utilities
+ * WhatsApp text for one package, rendered from a template (see
+ * share-template for the syntax). Two built-in templates:
+ *
+ * - long:  full schedule, hotels and price table (the original message)
+ * - short: name, departure, starting price and link, for quick broadcasts
+ *
+ * Agents can save their own template; both built-ins end with the agent's
+ * contact block so a forwarded message still leads back to the agent.
+ */
+
+import type { HotelStay, UmrohPackage } from '../types/umroh-package';
+import { findStay, getExtraStays } from '../services/data-service';
+import { getTierStartingPrice } from './pricing';
+import { formatHijriDate } from './hijri';
+import type { AgentData } from '../data/agents';
+import { parseTemplate, renderTemplate, type TemplateVariables } from './share-template';
+
+// ============================================
+// Types
+// ============================================
+
+export type ShareFormat = 'short' | 'long';
+
+export interface ShareMessageOptions {
+  /** Hotel tier whose stays and prices are shown */
+  tier: string;
+  format?: ShareFormat;
+  /** Custom template (overrides `format`; invalid templates fall back to it) */
+  template?: string;
+  agent?: AgentData | null;
+  /** Absolute deep link to the package (agent slug kept) */
+  packageLink?: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const DEFAULT_SHARE_FORMAT: ShareFormat = 'long';
+
+export const SHARE_FORMAT_OPTIONS: { value: ShareFormat; label: string; description: string }[] = [
+  { value: 'long', label: 'Lengkap', description: 'Jadwal, hotel & tabel harga' },
+  { value: 'short', label: 'Ringkas', description: 'Tanggal, harga mulai & link' },
+];
+
+const DIVIDER = '_________________________';
+
+/** Agent contact block shared by the built-in templates */
+const AGENT_FOOTER = `{{#if agen.nama}}
+
+${DIVIDER}
+*Info & Pendaftaran:*
+*{{agen.nama}}*
+WA: wa.me/{{agen.wa}}{{#if agen.website}}
+{{agen.website}}{{/if}}{{#if link}}
+
+Detail paket: {{link}}{{/if}}{{/if}}`;
+
+/** Built-in templates per format */
+export const SHARE_TEMPLATES: Record<ShareFormat, string> = {
+  long: `*ALHIJAZ INDOWISATA*
+${DIVIDER}
+*{{maskapai}}*, *{{nama}}*
+
+\`\`\`BERANGKAT\`\`\`
+*{{berangkat.tgl}}*, *{{berangkat.jam}}*{{#if berangkat.hijriah}}
+_{{berangkat.hijriah}}_{{/if}}
+*{{berangkat.flight}}* — *{{berangkat.rute}}*
+
+\`\`\`PULANG\`\`\`
+*{{pulang.tgl}}*, *{{pulang.jam}}*{{#if pulang.hijriah}}
+_{{pulang.hijriah}}_{{/if}}
+*{{pulang.flight}}* — *{{pulang.rute}}*
+
+\`\`\`MANASIK\`\`\`
+*{{#if manasik.tgl}}{{manasik.tgl}}{{else}}-{{/if}}*{{#if manasik.hijriah}}
+_{{manasik.hijriah}}_{{/if}}
+
+*[ DETAIL HOTEL ]*
+${DIVIDER}
+{{hotel.list}}
+
+\`\`\`BIAYA PAKET{{#if harga.multiTier}} {{harga.tier}}{{/if}}\`\`\`
+{{harga.table}}
+${DIVIDER}
+*GRATIS Biaya Perlengkapan, Handling & Asuransi*${AGENT_FOOTER}`,
+
+  short: `*ALHIJAZ INDOWISATA*
+*{{nama}}* — {{maskapai}}
+
+Berangkat: *{{berangkat.tgl}}*{{#if berangkat.hijriah}} ({{berangkat.hijriah}}){{/if}}
+Pulang: *{{pulang.tgl}}*{{#if pulang.hijriah}} ({{pulang.hijriah}}){{/if}}{{#if harga.mulai}}
+Mulai: *Rp {{harga.mulai}}*{{/if}}{{#if seat.sisa}}
+Sisa seat: *{{seat.sisa}}*{{/if}}${AGENT_FOOTER}`,
+};
+
+/** Variables available to templates, with labels for the editor */
+export const SHARE_TEMPLATE_VARIABLES: { key: string; label: string }[] = [
+  { key: 'nama', label: 'Nama paket' },
+  { key: 'maskapai', label: 'Maskapai' },
+  { key: 'berangkat.tgl', label: 'Tanggal berangkat' },
+  { key: 'berangkat.hijriah', label: 'Tanggal berangkat (Hijriah)' },
+  { key: 'berangkat.jam', label: 'Jam berangkat' },
+  { key: 'berangkat.flight', label: 'No. penerbangan berangkat' },
+  { key: 'berangkat.rute', label: 'Rute berangkat' },
+  { key: 'pulang.tgl', label: 'Tanggal pulang' },
+  { key: 'pulang.hijriah', label: 'Tanggal pulang (Hijriah)' },
+  { key: 'pulang.jam', label: 'Jam pulang' },
+  { key: 'pulang.flight', label: 'No. penerbangan pulang' },
+  { key: 'pulang.rute', label: 'Rute pulang' },
+  { key: 'manasik.tgl', label: 'Tanggal manasik (kosong jika belum ada)' },
+  { key: 'manasik.hijriah', label: 'Tanggal manasik (Hijriah)' },
+  { key: 'hotel.list', label: 'Daftar hotel' },
+  { key: 'harga.table', label: 'Tabel harga' },
+  { key: 'harga.mulai', label: 'Harga mulai' },
+  { key: 'harga.tier', label: 'Paket hotel dipilih' },
+  { key: 'harga.multiTier', label: 'Ada lebih dari satu paket hotel' },
+  { key: 'seat.sisa', label: 'Sisa seat' },
+  { key: 'seat.total', label: 'Total seat' },
+  { key: 'agen.nama', label: 'Nama agen' },
+  { key: 'agen.wa', label: 'No. WhatsApp agen' },
+  { key: 'agen.website', label: 'Website agen' },
+  { key: 'link', label: 'Link paket' },
+];
+
+// ============================================
+// Helpers
+// ============================================
+
+export function isShareFormat(value: unknown): value is ShareFormat {
+  return value === 'short' || value === 'long';
+}
+
+/** "Senin, 12 Oktober 2026" */
+function formatFullDate(dateStr: string): string {
+  const date = new Date(dateStr);
+  return date.toLocaleDateString('id-ID', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+}
+
+function formatRupiah(price: number): string {
+  return new Intl.NumberFormat('id-ID').format(price);
+}
+
+/** Hotel list (Madinah, Mekkah, then plus/transit stays) */
+function buildHotelList(stays: HotelStay[]): string {
+  const orderedStays = [findStay(stays, 'madinah'), findStay(stays, 'mekkah'), ...getExtraStays(stays)]
+    .filter((stay): stay is HotelStay => !!stay);
+
+  return orderedStays
+    .map(stay => `\`\`\`HOTEL ${stay.city.toUpperCase()}\`\`\`\n*${stay.hotelName}* [ *${'★'.repeat(stay.stars ?? 0)}* ]`)
+    .join('\n\n');
+}
+
+/** Price table for one tier */
+function buildPricing(pkg: UmrohPackage, tier: string): string {
+  const pricing = pkg.priceMatrix[tier];
+  const lines: string[] = [];
+  if (pricing?.Double) lines.push(`\`\`\`Double\`\`\`   →   \`\`\`Rp ${formatRupiah(pricing.Double)}\`\`\``);
+  if (pricing?.Triple) lines.push(`\`\`\`Triple\`\`\`   →   \`\`\`Rp ${formatRupiah(pricing.Triple)}\`\`\``);
+  if (pricing?.Quard) lines.push(`\`\`\`Quad\`\`\`     →   \`\`\`Rp ${formatRupiah(pricing.Quard)}\`\`\``);
+  if (pricing?.Infant) lines.push(`\`\`\`Infant\`\`\`   →   \`\`\`Rp ${formatRupiah(pricing.Infant)}\`\`\``);
+  return lines.join('\n');
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Template variables for one package, tier and agent
+ */
+export function buildShareVariables(
+  pkg: UmrohPackage,
+  options: Pick<ShareMessageOptions, 'tier' | 'agent' | 'packageLink'>
+): TemplateVariables {
+  const { tier, agent = null, packageLink } = options;
+  const startingPrice = getTierStartingPrice(pkg, tier);
+
+  return {
+    'nama': pkg.nama,
+    'maskapai': pkg.maskapai || '-',
+    'berangkat.tgl': formatFullDate(pkg.keberangkatan?.tgl || ''),
+    'berangkat.hijriah': formatHijriDate(pkg.keberangkatan?.tgl || ''),
+    'berangkat.jam': pkg.keberangkatan?.jam || '-',
+    'berangkat.flight': pkg.keberangkatan?.kodePenerbangan || '-',
+    'berangkat.rute': pkg.keberangkatan?.rute || '-',
+    'pulang.tgl': formatFullDate(pkg.kepulangan?.tgl || ''),
+    'pulang.hijriah': formatHijriDate(pkg.kepulangan?.tgl || ''),
+    'pulang.jam': pkg.kepulangan?.jam || '-',
+    'pulang.flight': pkg.kepulangan?.kodePenerbangan || '-',
+    'pulang.rute': pkg.kepulangan?.rute || '-',
+    'manasik.tgl': pkg.manasikTanggal ? formatFullDate(pkg.manasikTanggal) : '',
+    'manasik.hijriah': formatHijriDate(pkg.manasikTanggal),
+    'hotel.list': buildHotelList(pkg.hotel[tier] || []),
+    'harga.table': buildPricing(pkg, tier),
+    'harga.mulai': startingPrice ? formatRupiah(startingPrice.price) : '',
+    'harga.tier': tier,
+    'harga.multiTier': Object.keys(pkg.priceMatrix).length > 1 ? '1' : '',
+    'seat.sisa': String(pkg.seatSisa),
+    'seat.total': String(pkg.seatTotal),
+    'agen.nama': agent?.name ?? '',
+    'agen.wa': agent?.phone ?? '',
+    'agen.website': agent?.website ?? '',
+    'link': packageLink ?? '',
+  };
+}
+
+/**
+ * WhatsApp text for a package: custom template, else the format's built-in
+ */
+export function buildShareMessage(pkg: UmrohPackage, options: ShareMessageOptions): string {
+  const { format = DEFAULT_SHARE_FORMAT, template } = options;
+  const custom = template ? parseTemplate(template) : null;
+  const parsed = custom && custom.errors.length === 0 ? custom : SHARE_TEMPLATES[format];
+  return renderTemplate(parsed, buildShareVariables(pkg, options));
+}
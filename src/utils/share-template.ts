@@ -0,0 +1,124 @@
+/**
+ * Share Template Language
+ * Tiny Mustache-like syntax for the WhatsApp share text:
+ *
+ *   {{nama}}                              → value of a variable
+ *   {{#if manasik.tgl}}…{{else}}…{{/if}}  → conditional (else is optional)
+ *
+ * A variable counts as "true" when it is not empty and not "0". Values are
+ * inserted as-is and never parsed again, so a package name containing
+ * "{{" can't change the template.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type TemplateVariables = Record<string, string>;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; key: string }
+  | { type: 'if'; key: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  /** Syntax errors in Indonesian (empty when the template is valid) */
+  errors: string[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const TAG_PATTERN = /\{\{\s*(#if\s+[\w.]+|else|\/if|[\w.]+)\s*\}\}/g;
+
+// ============================================
+// Parser
+// ============================================
+
+/**
+ * Parse a template; unbalanced blocks are reported, not thrown
+ */
+export function parseTemplate(template: string): ParsedTemplate {
+  const errors: string[] = [];
+  const root: TemplateNode[] = [];
+
+  // Open blocks; each frame collects into `then` until {{else}}
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const frame = stack[stack.length - 1];
+    if (!frame) return root;
+    return frame.inElse ? frame.node.otherwise : frame.node.then;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) current().push({ type: 'text', value: template.slice(lastIndex, index) });
+    lastIndex = index + match[0].length;
+
+    const tag = match[1];
+    if (tag.startsWith('#if')) {
+      const node: TemplateNode = { type: 'if', key: tag.slice(3).trim(), then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const frame = stack[stack.length - 1];
+      if (!frame) errors.push('{{else}} tanpa {{#if}}');
+      else if (frame.inElse) errors.push(`{{else}} ganda di {{#if ${frame.node.key}}}`);
+      else frame.inElse = true;
+    } else if (tag === '/if') {
+      if (!stack.pop()) errors.push('{{/if}} tanpa {{#if}}');
+    } else {
+      current().push({ type: 'var', key: tag });
+    }
+  }
+
+  if (lastIndex < template.length) current().push({ type: 'text', value: template.slice(lastIndex) });
+
+  for (const frame of stack) {
+    errors.push(`{{#if ${frame.node.key}}} belum ditutup dengan {{/if}}`);
+  }
+
+  return { nodes: root, errors };
+}
+
+// ============================================
+// Renderer
+// ============================================
+
+function isTruthy(value: string | undefined): boolean {
+  return !!value && value !== '0';
+}
+
+function renderNodes(nodes: TemplateNode[], variables: TemplateVariables): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') output += node.value;
+    else if (node.type === 'var') output += variables[node.key] ?? '';
+    else output += renderNodes(isTruthy(variables[node.key]) ? node.then : node.otherwise, variables);
+  }
+  return output;
+}
+
+/**
+ * Render a template (unknown variables render as empty text)
+ */
+export function renderTemplate(template: string | ParsedTemplate, variables: TemplateVariables): string {
+  const parsed = typeof template === 'string' ? parseTemplate(template) : template;
+  return renderNodes(parsed.nodes, variables);
+}
+
+/**
+ * Variable names used by a template that aren't in `known` (typos)
+ */
+export function findUnknownVariables(template: string, known: string[]): string[] {
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const tag = match[1];
+    const key = tag.startsWith('#if') ? tag.slice(3).trim() : tag;
+    if (key !== 'else' && key !== '/if' && !known.includes(key)) unknown.add(key);
+  }
+  return [...unknown];
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTER_SPEC } from './filter-spec';
+import {
+  DEFAULT_URL_STATE,
+  buildPackageLink,
+  isSearchOnlyChange,
+  parseUrlState,
+  serializeUrlState,
+  type AppUrlState,
+} from './url-state';
+
+describe('parseUrlState / serializeUrlState', () => {
+  it('leaves the default state out of the URL', () => {
+    expect(serializeUrlState(DEFAULT_URL_STATE)).toBe('');
+    expect(parseUrlState('')).toEqual(DEFAULT_URL_STATE);
+  });
+
+  it('round-trips a combined filter', () => {
+    const state: AppUrlState = {
+      year: '1449',
+      filter: {
+        ...DEFAULT_FILTER_SPEC,
+        availableOnly: false,
+        promoOnly: true,
+        landings: ['MED'],
+        airlines: ['SAUDIA', 'GARUDA'],
+        months: { from: '2026-06', to: '2026-08' },
+        tiers: ['HEMAT'],
+        price: { min: null, max: 40000000 },
+        priceRoomType: 'Quard',
+        hotels: {
+          mekkah: { minStars: 5, maxDistance: 300 },
+          madinah: { minStars: 4, maxDistance: null },
+        },
+        duration: { min: 9, max: 12 },
+        seasons: ['ramadhan', 'itikaf'],
+        nameKeywords: ['rahmah'],
+        departureTimes: ['06-12'],
+        returnTimes: ['18-24'],
+        search: 'turki',
+        sort: 'price',
+      },
+      expandedCardId: 'JBU1500',
+    };
+
+    const query = serializeUrlState(state);
+    expect(query).toContain('city=MED');
+    expect(query).toContain('price=-40000000');
+    expect(query).toContain('room=quad');
+    expect(parseUrlState(query)).toEqual(state);
+  });
+
+  it('writes a value shared by both cities once', () => {
+    const state: AppUrlState = {
+      ...DEFAULT_URL_STATE,
+      filter: {
+        ...DEFAULT_FILTER_SPEC,
+        hotels: {
+          mekkah: { minStars: null, maxDistance: 500 },
+          madinah: { minStars: null, maxDistance: 500 },
+        },
+      },
+    };
+    expect(serializeUrlState(state)).toBe('?dist=500');
+    expect(parseUrlState('?dist=500')).toEqual(state);
+  });
+
+  it('writes a single month as month=', () => {
+    const state: AppUrlState = {
+      ...DEFAULT_URL_STATE,
+      filter: { ...DEFAULT_FILTER_SPEC, months: { from: '2026-06', to: '2026-06' } },
+    };
+    expect(serializeUrlState(state)).toBe('?month=2026-06');
+  });
+
+  it('opens links from before the filter spec', () => {
+    expect(parseUrlState('?mode=LANDING&city=med').filter.landings).toEqual(['MED']);
+    expect(parseUrlState('?mode=BULAN&month=2026-06').filter.months).toEqual({ from: '2026-06', to: '2026-06' });
+    expect(parseUrlState('?mode=PROMO').filter.promoOnly).toBe(true);
+    expect(parseUrlState('?mode=SEMUA').filter.availableOnly).toBe(false);
+    expect(parseUrlState('?f=termurah').filter.sort).toBe('price');
+    expect(parseUrlState('?f=syawal').filter.seasons).toEqual(['syawal']);
+    expect(parseUrlState('?stars=4').filter.hotels).toEqual({
+      mekkah: { minStars: 4, maxDistance: null },
+      madinah: { minStars: 4, maxDistance: null },
+    });
+  });
+
+  it('drops invalid values', () => {
+    const { year, filter } = parseUrlState('?y=2026&month=juni&stars=9&days=abc&dep=01-02&season=haji&sort=x&room=single&stars=mekkah:6&dist=kaaba:100');
+    expect(year).toBe(DEFAULT_URL_STATE.year);
+    expect(filter).toEqual(DEFAULT_FILTER_SPEC);
+  });
+});
+
+describe('buildPackageLink', () => {
+  it('opens the package even when it is full', () => {
+    const link = buildPackageLink('https://jadwal.example', 'bagas', '1449', 'JBU1500');
+    expect(link).toBe('https://jadwal.example/bagas?y=1449&seat=all&open=JBU1500');
+    expect(parseUrlState(new URL(link).search).filter.availableOnly).toBe(false);
+  });
+});
+
+describe('isSearchOnlyChange', () => {
+  it('is true only when the search alone differs', () => {
+    const base = parseUrlState('?city=MED');
+    const typed = parseUrlState('?city=MED&q=tur');
+    const moved = parseUrlState('?city=JED&q=tur');
+    expect(isSearchOnlyChange(base, typed)).toBe(true);
+    expect(isSearchOnlyChange(base, moved)).toBe(false);
+  });
+});
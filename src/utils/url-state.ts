@@ -0,0 +1,256 @@
+/**
+ * URL State Utilities
+ * Mirrors the list view (year, filter spec, opened package) into the
+ * query string so agents can share deep links like
+ * /bagas?y=1448&city=MED&promo=1&month=2026-06&open=JBU1500
+ *
+ * Filter params (see FilterSpec; lists are comma-separated, ranges are
+ * "min-max" with either end optional, e.g. "9-" or "-12"):
+ *   seat=all            promo=1             city=MED,JED
+ *   airline=SAUDIA      month=2026-06 (or from=2026-06&to=2026-08)
+ *   price=30000000-45000000 with room=quad|triple|double (budget room type)
+ *   tier=HEMAT          days=9-12
+ *   stars=4 (both cities) or stars=mekkah:5,madinah:4
+ *   dist=500 (meters, both cities) or dist=mekkah:300
+ *   season=ramadhan     name=rahmah         sort=seat|price
+ *   dep=06-12           ret=18-24           q=turki
+ *
+ * Links from before the filter spec (mode=LANDING&city=MED, mode=BULAN&month=,
+ * mode=PROMO, mode=SEMUA, f=<quick filter>) still open the same list.
+ */
+
+import {
+  DEFAULT_FILTER_SPEC,
+  TIME_RANGES,
+  isQuickFilterType,
+  toggleQuickFilter,
+  type FilterSort,
+  type FilterSpec,
+  type NumberRange,
+  type TimeRange,
+} from './filter-spec';
+import { ROOM_TYPE_LABELS, STARTING_PRICE_ROOM_TYPES } from './pricing';
+import { isSeasonType } from './season';
+import { HARAM_CITY_KEYS, type HaramCityKey } from '../services/data-service';
+import type { RoomType } from '../types/umroh-package';
+
+// ============================================
+// Types
+// ============================================
+
+export interface AppUrlState {
+  year: string;
+  filter: FilterSpec;
+  /** jadwalId of the expanded card */
+  expandedCardId: string | null;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const DEFAULT_URL_STATE: AppUrlState = {
+  year: '1448',
+  filter: DEFAULT_FILTER_SPEC,
+  expandedCardId: null,
+};
+
+const SORTS: FilterSort[] = ['date', 'seat', 'price'];
+
+const YEAR_PATTERN = /^1[45]\d{2}$/;
+const MONTH_KEY_PATTERN = /^\d{4}-\d{2}$/;
+const RANGE_PATTERN = /^(\d*)-(\d*)$/;
+const CITY_VALUE_PATTERN = /^([a-z]+):(\d+)$/;
+
+// ============================================
+// Helpers
+// ============================================
+
+function parseList(value: string | null): string[] {
+  if (!value) return [];
+  return Array.from(new Set(value.split(',').map(item => item.trim()).filter(Boolean)));
+}
+
+function parseTimeRanges(value: string | null): TimeRange[] {
+  return parseList(value).filter((range): range is TimeRange => TIME_RANGES.includes(range as TimeRange));
+}
+
+function parseMonth(value: string | null): string | null {
+  return value && MONTH_KEY_PATTERN.test(value) ? value : null;
+}
+
+/** "9-12", "9-" or "-12" → range (anything else → open range) */
+function parseRange(value: string | null): NumberRange {
+  const match = RANGE_PATTERN.exec(value || '');
+  if (!match) return { min: null, max: null };
+  return {
+    min: match[1] ? parseInt(match[1], 10) : null,
+    max: match[2] ? parseInt(match[2], 10) : null,
+  };
+}
+
+/** "quad" → "Quard" (budget room types only) */
+function parseRoomType(value: string | null): RoomType | null {
+  const lower = (value || '').toLowerCase();
+  return STARTING_PRICE_ROOM_TYPES.find(roomType => ROOM_TYPE_LABELS[roomType].toLowerCase() === lower) ?? null;
+}
+
+/**
+ * "4" (both cities) or "mekkah:5,madinah:4" → value per Haram city
+ * (values failing `isValid` are dropped)
+ */
+function parseCityValues(value: string | null, isValid: (n: number) => boolean): Record<HaramCityKey, number | null> {
+  const values: Record<HaramCityKey, number | null> = { mekkah: null, madinah: null };
+  const valid = (text: string) => {
+    const n = parseInt(text, 10);
+    return /^\d+$/.test(text) && isValid(n) ? n : null;
+  };
+
+  const both = valid(value || '');
+  if (both !== null) return { mekkah: both, madinah: both };
+
+  parseList(value).forEach(item => {
+    const match = CITY_VALUE_PATTERN.exec(item.toLowerCase());
+    const cityKey = HARAM_CITY_KEYS.find(key => key === match?.[1]);
+    if (match && cityKey) values[cityKey] = valid(match[2]);
+  });
+  return values;
+}
+
+function serializeCityValues(filter: FilterSpec, key: 'minStars' | 'maxDistance'): string {
+  const [mekkah, madinah] = HARAM_CITY_KEYS.map(cityKey => filter.hotels[cityKey][key]);
+  if (mekkah !== null && mekkah === madinah) return String(mekkah);
+  return HARAM_CITY_KEYS
+    .filter(cityKey => filter.hotels[cityKey][key] !== null)
+    .map(cityKey => `${cityKey}:${filter.hotels[cityKey][key]}`)
+    .join(',');
+}
+
+function serializeRange(range: NumberRange): string {
+  if (range.min === null && range.max === null) return '';
+  return `${range.min ?? ''}-${range.max ?? ''}`;
+}
+
+/**
+ * Filter spec from the params, including the pre-spec `mode` and `f` params
+ */
+function parseFilterSpec(params: URLSearchParams): FilterSpec {
+  const mode = (params.get('mode') || '').toUpperCase();
+  const stars = parseCityValues(params.get('stars'), n => n >= 1 && n <= 5);
+  const distances = parseCityValues(params.get('dist'), n => n > 0);
+  const sort = params.get('sort') as FilterSort;
+  const promo = (params.get('promo') || '').toLowerCase();
+  const month = parseMonth(params.get('month'));
+
+  let spec: FilterSpec = {
+    airlines: parseList(params.get('airline')).map(airline => airline.toUpperCase()),
+    landings: parseList(params.get('city')).map(city => city.toUpperCase()),
+    months: {
+      from: month ?? parseMonth(params.get('from')),
+      to: month ?? parseMonth(params.get('to')),
+    },
+    promoOnly: promo === '1' || promo === 'true' || mode === 'PROMO',
+    availableOnly: params.get('seat') !== 'all' && mode !== 'SEMUA' && mode !== 'SEMUA DATA',
+    price: parseRange(params.get('price')),
+    priceRoomType: parseRoomType(params.get('room')),
+    hotels: {
+      mekkah: { minStars: stars.mekkah, maxDistance: distances.mekkah },
+      madinah: { minStars: stars.madinah, maxDistance: distances.madinah },
+    },
+    duration: parseRange(params.get('days')),
+    departureTimes: parseTimeRanges(params.get('dep')),
+    returnTimes: parseTimeRanges(params.get('ret')),
+    tiers: parseList(params.get('tier')).map(tier => tier.toUpperCase()),
+    seasons: parseList(params.get('season')).filter(isSeasonType),
+    nameKeywords: parseList(params.get('name')).map(keyword => keyword.toLowerCase()),
+    search: params.get('q') || '',
+    sort: SORTS.includes(sort) ? sort : DEFAULT_FILTER_SPEC.sort,
+  };
+
+  const quick = params.get('f');
+  if (isQuickFilterType(quick)) spec = toggleQuickFilter(spec, quick);
+
+  return spec;
+}
+
+// ============================================
+// Main Functions
+// ============================================
+
+/**
+ * Read app state from a query string; unknown or invalid values fall back
+ * to the defaults so a mangled link still opens the list
+ */
+export function parseUrlState(search: string): AppUrlState {
+  const params = new URLSearchParams(search);
+  const year = params.get('y') || '';
+
+  return {
+    year: YEAR_PATTERN.test(year) ? year : DEFAULT_URL_STATE.year,
+    filter: parseFilterSpec(params),
+    expandedCardId: params.get('open') || null,
+  };
+}
+
+/**
+ * Build the query string for app state (defaults are left out)
+ * Returns '' or a string starting with '?'
+ */
+export function serializeUrlState(state: AppUrlState): string {
+  const { filter } = state;
+  const params = new URLSearchParams();
+
+  if (state.year !== DEFAULT_URL_STATE.year) params.set('y', state.year);
+  if (!filter.availableOnly) params.set('seat', 'all');
+  if (filter.promoOnly) params.set('promo', '1');
+  if (filter.landings.length > 0) params.set('city', filter.landings.join(','));
+  if (filter.airlines.length > 0) params.set('airline', filter.airlines.join(','));
+
+  if (filter.months.from && filter.months.from === filter.months.to) {
+    params.set('month', filter.months.from);
+  } else {
+    if (filter.months.from) params.set('from', filter.months.from);
+    if (filter.months.to) params.set('to', filter.months.to);
+  }
+
+  if (filter.tiers.length > 0) params.set('tier', filter.tiers.join(','));
+  if (serializeRange(filter.price)) params.set('price', serializeRange(filter.price));
+  if (filter.priceRoomType) params.set('room', ROOM_TYPE_LABELS[filter.priceRoomType].toLowerCase());
+  if (serializeCityValues(filter, 'minStars')) params.set('stars', serializeCityValues(filter, 'minStars'));
+  if (serializeCityValues(filter, 'maxDistance')) params.set('dist', serializeCityValues(filter, 'maxDistance'));
+  if (serializeRange(filter.duration)) params.set('days', serializeRange(filter.duration));
+  if (filter.seasons.length > 0) params.set('season', filter.seasons.join(','));
+  if (filter.nameKeywords.length > 0) params.set('name', filter.nameKeywords.join(','));
+  if (filter.sort !== DEFAULT_FILTER_SPEC.sort) params.set('sort', filter.sort);
+  if (filter.departureTimes.length > 0) params.set('dep', filter.departureTimes.join(','));
+  if (filter.returnTimes.length > 0) params.set('ret', filter.returnTimes.join(','));
+  if (filter.search.trim()) params.set('q', filter.search);
+  if (state.expandedCardId) params.set('open', state.expandedCardId);
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Absolute link that opens one package, on the agent's page when a slug is given
+ * (e.g. https://host/bagas?y=1449&seat=all&open=JBU1500). Full packages are
+ * listed too, so the card still opens once the last seat is sold.
+ */
+export function buildPackageLink(origin: string, slug: string, year: string, jadwalId: string): string {
+  const query = serializeUrlState({
+    year,
+    filter: { ...DEFAULT_FILTER_SPEC, availableOnly: false },
+    expandedCardId: jadwalId,
+  });
+  return `${origin}/${slug}${query}`;
+}
+
+/**
+ * Whether two states differ only in the search query
+ * (typing replaces the history entry instead of pushing one per keystroke)
+ */
+export function isSearchOnlyChange(a: AppUrlState, b: AppUrlState): boolean {
+  const withoutSearch = (state: AppUrlState): AppUrlState => ({ ...state, filter: { ...state.filter, search: '' } });
+  return a.filter.search !== b.filter.search &&
+    serializeUrlState(withoutSearch(a)) === serializeUrlState(withoutSearch(b));
+}
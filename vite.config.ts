@@ -45,7 +45,7 @@ export default defineConfig({
         // Force new SW to take over immediately
         skipWaiting: true,
         clientsClaim: true,
-        // Don't cache API responses in SW
+        // Don't cache API responses in SW (offline copy lives in IndexedDB, see package-cache.ts)
         navigateFallbackDenylist: [/^\/api/],
         runtimeCaching: [
           {